@@ -0,0 +1,156 @@
+import { timingSafeEqual } from 'crypto';
+import { Probot, Server } from 'probot';
+import { PRService } from './handlers/prService';
+import { JobQueue } from './queue';
+import { createRepositoryContext } from './utils/context';
+import { matchReleaseFlows } from './utils/flows';
+import { logger } from './utils/logger';
+
+/**
+ * Checks the request's bearer token against `ADMIN_TOKEN`. Admin routes are
+ * disabled when no token is configured.
+ * @param authorization - The Authorization header
+ * @returns True if the request is authenticated
+ */
+function isAuthorized(authorization: string | undefined): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token || !authorization) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(authorization);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Rebuilds every open release PR of a repository, e.g. after the app was down.
+ * @param app - The Probot app
+ * @param owner - The repository owner
+ * @param repo - The repository name
+ * @returns The rebuilt release PRs and how many PRs and commits each includes
+ */
+export async function rebuildReleasePRs(
+  app: Probot,
+  owner: string,
+  repo: string
+): Promise<{ pr: number; entries: number }[]> {
+  const appOctokit = await app.auth();
+  const { data: installation } = await appOctokit.apps.getRepoInstallation({
+    owner,
+    repo,
+  });
+
+  const octokit = await app.auth(installation.id);
+  const { data: repository } = await octokit.repos.get({ owner, repo });
+  const context = createRepositoryContext(
+    `admin-rebuild-${Date.now()}`,
+    repository,
+    octokit,
+    app.log
+  );
+
+  const prService = new PRService(context);
+  const config = await prService.loadConfig();
+
+  const prs = await octokit.paginate(octokit.pulls.list, {
+    owner,
+    repo,
+    state: 'open',
+    per_page: 100,
+  });
+
+  const rebuilt: { pr: number; entries: number }[] = [];
+  for (const pr of prs) {
+    for (const flow of matchReleaseFlows(config, pr.base.ref, pr.head.ref)) {
+      const flowService = new PRService(context);
+      flowService.useFlow(flow, config);
+
+      const ledger = await flowService.withReleasePRLock(() =>
+        flowService.rebuildReleasePR(pr.number)
+      );
+      rebuilt.push({ pr: pr.number, entries: ledger.entries.length });
+    }
+  }
+
+  return rebuilt;
+}
+
+/**
+ * Registers the admin HTTP routes, authenticated with `ADMIN_TOKEN` as a
+ * bearer token:
+ * - `POST /admin/repos/:owner/:repo/rebuild` rebuilds the repository's release PRs
+ * - `GET /admin/jobs?status=pending|failed` lists queued or failed webhook jobs
+ * - `POST /admin/jobs/:id/replay` moves a failed job back into the queue
+ * - `DELETE /admin/jobs/:id` discards a job
+ * @param server - The Probot server
+ * @param queue - The webhook job queue
+ */
+export function registerAdminRoutes(server: Server, queue: JobQueue): void {
+  const router = server.router('/admin');
+
+  router.use((req, res, next) => {
+    if (!isAuthorized(req.headers.authorization)) {
+      res.status(401).send({ message: 'Unauthorized' });
+      return;
+    }
+    next();
+  });
+
+  router.post('/repos/:owner/:repo/rebuild', (req, res) => {
+    const { owner, repo } = req.params;
+    rebuildReleasePRs(server.probotApp, owner, repo)
+      .then((rebuilt) => {
+        logger.info(
+          `Rebuilt ${rebuilt.length} release PR(s) in ${owner}/${repo}`
+        );
+        res.send({ rebuilt });
+      })
+      .catch((error) => {
+        logger.error(
+          `Failed to rebuild release PRs in ${owner}/${repo}:`,
+          error
+        );
+        res
+          .status(error.status === 404 ? 404 : 500)
+          .send({ message: error.message });
+      });
+  });
+
+  router.get('/jobs', (req, res) => {
+    const status = req.query.status;
+    if (status !== undefined && status !== 'pending' && status !== 'failed') {
+      res.status(400).send({ message: 'status must be pending or failed' });
+      return;
+    }
+
+    // Payloads are large, so only the job metadata is listed
+    queue.store
+      .list(status)
+      .then((jobs) =>
+        res.send({ jobs: jobs.map(({ payload, ...job }) => job) })
+      )
+      .catch((error) => res.status(500).send({ message: error.message }));
+  });
+
+  router.post('/jobs/:id/replay', (req, res) => {
+    queue
+      .replay(req.params.id)
+      .then((job) => {
+        if (!job) {
+          res.status(404).send({ message: 'No failed job with this ID' });
+          return;
+        }
+        logger.info(`Replaying job ${job.id} (${job.name})`);
+        res.send({ job: { ...job, payload: undefined } });
+      })
+      .catch((error) => res.status(500).send({ message: error.message }));
+  });
+
+  router.delete('/jobs/:id', (req, res) => {
+    queue.store
+      .remove(req.params.id)
+      .then(() => res.status(204).send())
+      .catch((error) => res.status(500).send({ message: error.message }));
+  });
+}
@@ -1,42 +1,140 @@
 import { Probot } from 'probot';
+import { CommandService } from './handlers/commandService';
 import { PRService } from './handlers/prService';
+import { JobQueue } from './queue';
+import {
+  matchFeatureFlows,
+  matchHotfixFlows,
+  matchReleaseFlows,
+} from './utils/flows';
 
 export const probotHandler = (app: Probot) => {
-  // Handle when PRs are merged into staging or release
+  // Handle when PRs are merged into a flow's source or target branch
   app.on('pull_request.closed', async (context) => {
     const payload = context.payload;
     const pr = payload.pull_request;
 
-    // Only proceed if the PR was merged
-    if (!pr.merged) {
-      return;
-    }
-
     const baseRef = pr.base.ref;
     const headRef = pr.head.ref;
 
     const prService = new PRService(context);
+    const config = await prService.loadConfig();
+
+    const featureFlows = matchFeatureFlows(config, baseRef, headRef);
+    const releaseFlows = matchReleaseFlows(config, baseRef, headRef);
+
+    // A PR closed out of a source branch without merging must not be released
+    if (!pr.merged) {
+      for (const flow of featureFlows) {
+        const flowService = new PRService(context);
+        flowService.useFlow(flow, config);
+        await flowService.handleFeatureClosedOnStaging();
+      }
+      return;
+    }
 
     prService.logger.info(
       `PR #${pr.number} (${headRef} → ${baseRef}) was merged`
     );
 
-    await prService.loadConfig();
+    // Case 1: Feature branch merged into a source branch - generate AI summary,
+    // unless it only reverts PRs that are not released yet. Another flow's
+    // release PR, e.g. rc into stable, carries its summarized PRs over instead
+    for (const flow of featureFlows) {
+      const flowService = new PRService(context);
+      flowService.useFlow(flow, config);
+
+      if (releaseFlows.length > 0) {
+        await flowService.handleReleaseMergedToStaging();
+        continue;
+      }
+
+      const reverted = await flowService.handleRevertMergedToStaging();
+      if (!reverted) {
+        await flowService.handleFeatureMergedToStaging();
+      }
+    }
+
+    // Case 2: Source branch merged to its target - create GitHub release
+    for (const flow of releaseFlows) {
+      const flowService = new PRService(context);
+      flowService.useFlow(flow, config);
+      await flowService.handleStagingMergedToRelease();
+    }
+
+    // Case 3: PR merged straight into a target, bypassing its source - cut a
+    // patch release if hotfixes are enabled
+    if (releaseFlows.length === 0) {
+      for (const flow of matchHotfixFlows(config, baseRef, headRef)) {
+        const flowService = new PRService(context);
+        flowService.useFlow(flow, config);
+        await flowService.handleHotfixMergedToRelease();
+      }
+    }
+  });
 
-    // Case 1: Feature branch merged into staging - generate AI summary
-    if (
-      baseRef === prService.config.branches?.staging &&
-      headRef !== prService.config.branches?.release
-    ) {
-      await prService.handleFeatureMergedToStaging();
+  // Handle commits pushed straight to a flow's source branch, without a PR
+  app.on('push', async (context) => {
+    const payload = context.payload;
+    if (!payload.ref.startsWith('refs/heads/') || payload.deleted) {
+      return;
     }
 
-    // Case 2: Staging merged to release/main - create GitHub release
-    if (
-      baseRef === prService.config.branches?.release &&
-      headRef === prService.config.branches?.staging
-    ) {
-      await prService.handleStagingMergedToRelease();
+    const branch = payload.ref.slice('refs/heads/'.length);
+    const prService = new PRService(context);
+    const config = await prService.loadConfig();
+
+    for (const flow of matchFeatureFlows(config, branch, '')) {
+      const flowService = new PRService(context);
+      flowService.useFlow(flow, config);
+      await flowService.handlePushToStaging();
     }
   });
+
+  // Refresh the readiness check when a release PR changes
+  app.on(
+    [
+      'pull_request.opened',
+      'pull_request.reopened',
+      'pull_request.edited',
+      'pull_request.synchronize',
+      'pull_request.labeled',
+      'pull_request.unlabeled',
+    ],
+    async (context) => {
+      const pr = context.payload.pull_request;
+      const prService = new PRService(context);
+      const config = await prService.loadConfig();
+
+      for (const flow of matchReleaseFlows(config, pr.base.ref, pr.head.ref)) {
+        const flowService = new PRService(context);
+        flowService.useFlow(flow, config);
+        await flowService.handleReleasePRUpdated();
+      }
+    }
+  );
+
+  // Handle /autorelease commands commented on a release PR
+  app.on('issue_comment.created', async (context) => {
+    const commandService = new CommandService(context);
+
+    await commandService.loadConfig();
+    await commandService.handleCommentCreated();
+  });
+};
+
+/**
+ * Queues every webhook event instead of handling it inside the webhook
+ * request, so slow or failing work can be retried. The queue's worker passes
+ * the events on to an app running `probotHandler`.
+ * @param queue - The webhook job queue
+ */
+export const queueHandler = (queue: JobQueue) => (app: Probot) => {
+  app.onAny(async (context) => {
+    await queue.enqueue({
+      id: context.id,
+      name: context.name,
+      payload: context.payload,
+    });
+  });
 };
@@ -0,0 +1,277 @@
+import { IssueCommentCreatedEvent } from '@octokit/webhooks-types';
+import { Context } from 'probot';
+import {
+  COMMAND_USAGE,
+  ReleaseCommand,
+  parseReleaseCommand,
+} from '../utils/commands';
+import { matchReleaseFlows } from '../utils/flows';
+import { parseReleaseTitle } from '../utils/helpers';
+import { readLedger, summarizeLedger } from '../utils/ledger';
+import { renderTemplate } from '../utils/templates';
+import { ReleasePR } from '../utils/types';
+import { PRService } from './prService';
+
+// Repository permission levels allowed to run release commands
+const COMMAND_PERMISSIONS = ['admin', 'write'];
+
+export class CommandService extends PRService {
+  constructor(context: Context) {
+    super(context);
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                        HANDLE COMMENTS ON RELEASE PR                       */
+  /* -------------------------------------------------------------------------- */
+
+  /**
+   * Handles an `/autorelease` slash command commented on the staging-to-release PR.
+   * Commands from users without write access are rejected. The comment gets a
+   * reaction with the result, and a reply for errors and command output.
+   */
+  public async handleCommentCreated(): Promise<void> {
+    const payload = this.context.payload as IssueCommentCreatedEvent;
+    const { issue, comment } = payload;
+
+    if (!issue.pull_request || comment.user.type === 'Bot') {
+      return;
+    }
+
+    const command = parseReleaseCommand(comment.body);
+    if (!command) {
+      return;
+    }
+
+    const { data: pr } = await this.context.octokit.pulls.get({
+      owner: this.context.repo().owner,
+      repo: this.context.repo().repo,
+      pull_number: issue.number,
+    });
+
+    const [flow] = matchReleaseFlows(this.config, pr.base.ref, pr.head.ref);
+    if (!flow || (pr.state === 'closed' && !pr.merged)) {
+      this.logger.info(
+        `Ignoring command on #${issue.number}, which is not a release PR`
+      );
+      return;
+    }
+
+    // Scope versions, branches and release settings to the PR's flow
+    this.useFlow(flow);
+
+    const login = comment.user.login;
+    if (!(await this.canRunCommands(login))) {
+      await this.react(comment.id, '-1');
+      await this.reply(
+        issue.number,
+        `@${login} you need write access to run release commands.`
+      );
+      return;
+    }
+
+    if ('error' in command) {
+      await this.react(comment.id, 'confused');
+      await this.reply(issue.number, `${command.error}\n\n${COMMAND_USAGE}`);
+      return;
+    }
+
+    // Only `release` applies once the release PR is merged
+    if ((command.name === 'release') !== pr.merged) {
+      await this.react(comment.id, 'confused');
+      await this.reply(
+        issue.number,
+        pr.merged
+          ? 'This release PR is already merged, only `/autorelease release` can be used.'
+          : 'Merge this release PR before running `/autorelease release`.'
+      );
+      return;
+    }
+
+    this.logger.info(`@${login} ran /autorelease ${command.name}`);
+
+    const releasePR: ReleasePR = {
+      number: pr.number,
+      title: pr.title,
+      body: pr.body || '',
+      labels: pr.labels.map((label) => label.name),
+      mergeCommitSha: pr.merge_commit_sha,
+    };
+
+    try {
+      const result = await this.withReleasePRLock(() =>
+        this.runCommand(releasePR, command, login)
+      );
+      await this.react(comment.id, '+1');
+      if (result) {
+        await this.reply(issue.number, result);
+      }
+      if (!pr.merged) {
+        await this.updateReadinessCheck(pr.number);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to run /autorelease ${command.name}:`, error);
+      await this.react(comment.id, 'confused');
+      await this.reply(
+        issue.number,
+        `Failed to run \`/autorelease ${command.name}\`: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Runs a release command against the release PR.
+   * @param pr - The release PR
+   * @param command - The parsed command
+   * @param login - The user who ran the command
+   * @returns A reply to post on the PR, if the command has output
+   */
+  async runCommand(
+    pr: ReleasePR,
+    command: ReleaseCommand,
+    login: string
+  ): Promise<string | undefined> {
+    const ledger = readLedger(pr.body, this.categories);
+
+    switch (command.name) {
+      case 'bump':
+      case 'title': {
+        // Store the override in the ledger so later updates keep it
+        const { ledger: updated, body } = await this.updateReleasePRLedger(
+          pr.number,
+          (current) =>
+            command.name === 'bump'
+              ? { ...current, bumpOverride: command.versionType }
+              : { ...current, summaryOverride: command.summary }
+        );
+        const summary = summarizeLedger(updated, this.categories);
+
+        // Keep the parts of the title the command does not change
+        const current = parseReleaseTitle(pr.title);
+        await this.updatePRTitleWithInfo(
+          pr.number,
+          updated.bumpOverride ?? current?.versionType ?? summary.versionType,
+          updated.summaryOverride ?? current?.summary ?? summary.summary,
+          body
+        );
+        return undefined;
+      }
+      case 'regenerate': {
+        const { ledger: current } = await this.updateReleasePRLedger(
+          pr.number,
+          (current) => current
+        );
+        await this.updatePRTitle(
+          pr.number,
+          summarizeLedger(current, this.categories)
+        );
+
+        return `Regenerated the release notes from ${current.entries.length} PRs.`;
+      }
+      case 'rebuild': {
+        const ledger = await this.rebuildReleasePR(pr.number);
+        return `Rebuilt the release notes from ${ledger.entries.length} PRs and commits.`;
+      }
+      case 'exclude': {
+        const removed = await this.removeFromReleasePR(
+          pr.number,
+          [command.prNumber],
+          `excluded by @${login}`
+        );
+        if (removed.length === 0) {
+          throw new Error(`#${command.prNumber} is not part of this release`);
+        }
+        return undefined;
+      }
+      case 'preview': {
+        const prepared = await this.prepareRelease(pr);
+        if (!prepared) {
+          throw new Error('the release version could not be determined');
+        }
+
+        const name = renderTemplate(
+          this.config.release?.nameTemplate ?? '{version}',
+          prepared.variables
+        );
+        const body = renderTemplate(
+          this.config.release?.bodyTemplate ?? '',
+          prepared.variables
+        );
+
+        return `### Release preview: ${name}\n\n${body}`;
+      }
+      case 'release': {
+        // Package versions come from the changed packages, not the command
+        if (this.packages.length > 0) {
+          if (command.version) {
+            throw new Error(
+              'package versions come from the changed packages, use `/autorelease release` without a version'
+            );
+          }
+          await this.releasePackages(pr);
+          return undefined;
+        }
+
+        const refusal = await this.releaseFromPR(pr, command.version);
+        if (refusal) {
+          throw new Error(refusal);
+        }
+        return undefined;
+      }
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                   HELPERS                                  */
+  /* -------------------------------------------------------------------------- */
+
+  /**
+   * Checks whether a user has write access to the repository.
+   * @param username - The user's login
+   * @returns True if the user may run release commands
+   */
+  async canRunCommands(username: string): Promise<boolean> {
+    try {
+      const { data } =
+        await this.context.octokit.repos.getCollaboratorPermissionLevel({
+          owner: this.context.repo().owner,
+          repo: this.context.repo().repo,
+          username,
+        });
+      return COMMAND_PERMISSIONS.includes(data.permission);
+    } catch (error) {
+      this.logger.error(`Error checking permissions for @${username}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Reacts to a comment.
+   * @param commentId - The comment to react to
+   * @param content - The reaction
+   */
+  async react(
+    commentId: number,
+    content: '+1' | '-1' | 'confused'
+  ): Promise<void> {
+    await this.context.octokit.reactions.createForIssueComment({
+      owner: this.context.repo().owner,
+      repo: this.context.repo().repo,
+      comment_id: commentId,
+      content,
+    });
+  }
+
+  /**
+   * Replies to a command with a comment on the PR.
+   * @param prNumber - The PR to comment on
+   * @param body - The comment body
+   */
+  async reply(prNumber: number, body: string): Promise<void> {
+    await this.context.octokit.issues.createComment({
+      owner: this.context.repo().owner,
+      repo: this.context.repo().repo,
+      issue_number: prNumber,
+      body,
+    });
+  }
+}
@@ -1,15 +1,27 @@
 import { Repository } from '@octokit/webhooks-types';
-import OpenAI from 'openai';
-import { ChatCompletionCreateParams } from 'openai/resources';
 import { Context } from 'probot';
 import winston from 'winston';
+import {
+  DEFAULT_MODELS,
+  createLLMProvider,
+  resolveProviderName,
+} from '../providers';
+import { scopeConfigToFlow } from '../utils/flows';
+import { validateSchema } from '../utils/jsonSchema';
 import { logger } from '../utils/logger';
-import { RepoConfig } from '../utils/types';
+import {
+  ChatMessage,
+  CompletionOptions,
+  LLMProvider,
+  ReleaseFlow,
+  RepoConfig,
+  StructuredOutput,
+} from '../utils/types';
 
 export class ConfigService {
   public context: Context;
   public config: RepoConfig = ConfigService.DEFAULT_CONFIG;
-  private openai: OpenAI;
+  private llm?: LLMProvider;
   public logger: winston.Logger;
 
   static readonly DEFAULT_CONFIG: RepoConfig = {
@@ -21,7 +33,7 @@ export class ConfigService {
 
     // PR templates
     pr: {
-      draftTitle: '{major}.{minor}.{patch} Release: {version}',
+      draftTitle: '{bumpType} Release: {version}: {summary}',
       draftBody: `## Features to be released
 
 {features}
@@ -35,8 +47,23 @@ export class ConfigService {
     // Release options
     release: {
       prefix: 'v',
+      blockerLabel: 'release-blocker',
       createDraft: false,
       prerelease: false,
+      prereleaseIdentifier: 'rc',
+      versionSource: 'tags',
+      versionFile: 'package.json',
+      backMergeToStaging: false,
+      nameTemplate: '{version}',
+      bodyTemplate: `# Release
+
+**Release Type:** {bumpType}
+**Release Date:** {date}
+
+{features}
+
+---
+*This release was automatically published by the GitHub Release Bot with AI-generated summary.*`,
       generateReleaseNotes: true,
     },
 
@@ -47,6 +74,61 @@ export class ConfigService {
       entryFormat: '## {version} ({date})\n\n{features}\n\n',
     },
 
+    // Release note categories, in the order they appear
+    categories: [
+      {
+        title: 'New Features',
+        description: 'New functionality and enhancements',
+        commitTypes: ['feat'],
+      },
+      {
+        title: 'Bugs / Improvements',
+        description:
+          'Bug fixes and improvements to existing functionality, including performance',
+        commitTypes: ['fix', 'perf', 'refactor', 'revert'],
+      },
+    ],
+
+    // Patch releases for PRs merged straight into the release branch
+    hotfix: {
+      enabled: false,
+      backMerge: 'pr',
+    },
+
+    // Automatic release PR merging, off unless windows or a PR count are set
+    schedule: {
+      at: [],
+      mergeMethod: 'merge',
+    },
+
+    // Manifest files whose version is bumped on release
+    versionFiles: [],
+
+    // Lockfiles, generated and vendored files are left out of AI prompts
+    diff: {
+      ignore: [
+        'package-lock.json',
+        'yarn.lock',
+        'pnpm-lock.yaml',
+        '*.lock',
+        'go.sum',
+        '*.min.js',
+        '*.min.css',
+        '*.map',
+        '*.snap',
+        '*.generated.*',
+        '**/dist/**',
+        'dist/**',
+        '**/vendor/**',
+        'vendor/**',
+        '**/node_modules/**',
+        'node_modules/**',
+      ],
+      maxFileTokens: 2000,
+      maxChunkTokens: 8000,
+      maxChunks: 8,
+    },
+
     // Tags for version bumping in PRs
     releaseTags: {
       major: '[MAJOR]',
@@ -71,14 +153,6 @@ export class ConfigService {
 
   constructor(context: Context) {
     this.context = context;
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-    });
 
     const repository: Repository = (context.payload as any).repository;
 
@@ -92,6 +166,17 @@ export class ConfigService {
     });
   }
 
+  /**
+   * Scopes this service to a release flow, so its branches and release
+   * settings are the flow's
+   * @param flow - The resolved flow
+   * @param config - The configuration to scope, defaults to the loaded one
+   */
+  public useFlow(flow: ReleaseFlow, config: RepoConfig = this.config): void {
+    this.config = scopeConfigToFlow(config, flow);
+    this.logger = this.logger.child({ flow: flow.name });
+  }
+
   /**
    * Load configuration from repository
    */
@@ -119,6 +204,7 @@ export class ConfigService {
         );
 
         this.logger.info('Loaded configuration from repository');
+        this.config = mergedConfig;
         return mergedConfig;
       }
 
@@ -159,37 +245,113 @@ export class ConfigService {
   }
 
   /* -------------------------------------------------------------------------- */
-  /*                                   OPENAI                                   */
+  /*                                     AI                                     */
   /* -------------------------------------------------------------------------- */
 
-  async callOpenAI({
+  /**
+   * Gets the LLM provider selected by the repository config or environment,
+   * creating it on first use.
+   */
+  private getLLMProvider(): LLMProvider {
+    if (!this.llm) {
+      this.llm = createLLMProvider(
+        resolveProviderName(this.config.ai?.provider)
+      );
+      this.logger.info(`Using LLM provider: ${this.llm.name}`);
+    }
+    return this.llm;
+  }
+
+  /**
+   * Sends a chat completion request to the configured LLM provider.
+   * @param messages - The chat messages to send
+   * @returns The model response, or null if AI is disabled
+   */
+  async callLLM({ messages }: { messages: ChatMessage[] }) {
+    if (!this.config.ai?.enabled) {
+      return null;
+    }
+
+    const provider = this.getLLMProvider();
+    return provider.complete(messages, this.getCompletionOptions(provider));
+  }
+
+  /**
+   * Requests structured output from the configured LLM provider and validates it
+   * against the output schema, retrying once with the validation errors.
+   * @param messages - The chat messages to send
+   * @param output - The structured output definition
+   * @returns The validated model output, or null if AI is disabled
+   * @throws If the output is still invalid after the retry
+   */
+  async callLLMStructured<T>({
     messages,
+    output,
   }: {
-    messages: ChatCompletionCreateParams['messages'];
-  }) {
-    const model = this.config.ai?.openai?.model;
-    const temperature = this.config.ai?.openai?.temperature;
-    const max_tokens = this.config.ai?.openai?.max_tokens;
-
+    messages: ChatMessage[];
+    output: StructuredOutput;
+  }): Promise<T | null> {
     if (!this.config.ai?.enabled) {
       return null;
     }
 
-    if (!model || !temperature || !max_tokens) {
-      throw new Error('OpenAI configuration is missing required fields');
+    const provider = this.getLLMProvider();
+    const options = this.getCompletionOptions(provider);
+
+    let errors: string[] = [];
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      const retryMessages: ChatMessage[] =
+        attempt === 1
+          ? messages
+          : [
+              ...messages,
+              {
+                role: 'user',
+                content: `Your previous response did not match the required schema:\n${errors.join('\n')}\nRespond again following the schema exactly.`,
+              },
+            ];
+
+      try {
+        const result = await provider.completeStructured(
+          retryMessages,
+          output,
+          options
+        );
+        errors = validateSchema(result, output.schema);
+        if (errors.length === 0) {
+          return result as T;
+        }
+      } catch (error) {
+        // Malformed JSON is retried like a schema failure
+        if (!(error instanceof SyntaxError)) {
+          throw error;
+        }
+        errors = [`Invalid JSON: ${error.message}`];
+      }
+
+      this.logger.warn(
+        `AI output for ${output.name} failed validation (attempt ${attempt}): ${errors.join('; ')}`
+      );
     }
 
-    const response = await this.openai.chat.completions.create({
-      model,
-      messages,
-      temperature,
-      max_tokens,
-    });
+    throw new Error(
+      `AI output for ${output.name} did not match the schema: ${errors.join('; ')}`
+    );
+  }
+
+  private getCompletionOptions(provider: LLMProvider): CompletionOptions {
+    const model =
+      (this.config.ai?.model ||
+        process.env.LLM_MODEL ||
+        DEFAULT_MODELS[provider.name]) ??
+      this.config.ai?.openai?.model;
+    const temperature = this.config.ai?.openai?.temperature;
+    const max_tokens = this.config.ai?.openai?.max_tokens;
 
-    if (!response.choices[0].message.content) {
-      throw new Error('No response from OpenAI');
+    if (!model || temperature === undefined || !max_tokens) {
+      throw new Error('AI configuration is missing required fields');
     }
 
-    return response.choices[0].message.content;
+    return { model, temperature, max_tokens };
   }
 }
@@ -1,10 +1,92 @@
-import { PullRequest, PullRequestClosedEvent } from '@octokit/webhooks-types';
-import { OpenAI } from 'openai';
-import { ChatCompletionCreateParams } from 'openai/resources';
+import {
+  PullRequest,
+  PullRequestClosedEvent,
+  PullRequestEvent,
+  PushEvent,
+} from '@octokit/webhooks-types';
 import { Context } from 'probot';
-import { calculateNewVersion, parseSummary } from '../utils/helpers';
+import { VERSION_INFO_OUTPUT, featureSummaryOutput } from '../utils/aiSchemas';
+import { summarizeConventionalCommits } from '../utils/conventionalCommits';
+import { DiffAnalysis, FileDiff, analyzeDiff, parsePatch } from '../utils/diff';
+import { matchReleaseFlows } from '../utils/flows';
+import {
+  detectReleaseTag,
+  formatSections,
+  hasChangelogEntry,
+  highestVersionType,
+  parseReleaseTitle,
+  parseSummary,
+  prependChangelogEntry,
+} from '../utils/helpers';
+import {
+  entryReference,
+  findEntriesByTitle,
+  formatAuthor,
+  isExcluded,
+  readLedger,
+  removeLedgerEntry,
+  renderLedger,
+  serializeLedger,
+  summarizeLedger,
+  upsertLedgerEntry,
+} from '../utils/ledger';
+import { withLock } from '../utils/locks';
+import {
+  PackageRelease,
+  formatPackageTag,
+  matchPackages,
+  packageLedger,
+  renderPackageSections,
+  versionFromPackageTag,
+} from '../utils/packages';
+import {
+  ReadinessInput,
+  buildConfigErrorReport,
+  buildReadinessReport,
+} from '../utils/readiness';
+import { detectRevert } from '../utils/reverts';
+import {
+  ReleaseType,
+  SemVer,
+  capReleaseType,
+  compareVersions,
+  formatVersion,
+  inVersionLine,
+  incrementVersion,
+  parseVersion,
+  releaseTypeBetween,
+  sortVersions,
+  versionFromTag,
+} from '../utils/semver';
+import {
+  TemplateVariables,
+  buildTemplateVariables,
+  extractAttributions,
+  renderTemplate,
+} from '../utils/templates';
+import {
+  BumpReason,
+  CategoryConfig,
+  ChangeDetails,
+  ChatMessage,
+  FeatureSummary,
+  LedgerEntry,
+  PackageConfig,
+  ReleaseLedger,
+  ReleasePR,
+  VersionInfo,
+  VersionType,
+} from '../utils/types';
+import { readVersionFromFile, writeVersionToFile } from '../utils/versionFiles';
 import { ConfigService } from './configService';
 
+// Attempts to update the release PR body before giving up on concurrent changes
+const MAX_LEDGER_UPDATE_ATTEMPTS = 3;
+
+// Merge commits and the app's own release commits are never summarized
+const SKIPPED_COMMIT_REGEX =
+  /^(Merge (pull request|branch|remote-tracking branch) |chore\(release\): )/;
+
 export class PRService extends ConfigService {
   constructor(context: Context) {
     super(context);
@@ -15,17 +97,45 @@ export class PRService extends ConfigService {
   /* -------------------------------------------------------------------------- */
 
   /**
-   * Constants for section names to ensure consistency throughout the code
+   * The configured release note categories, in order
+   */
+  protected get categories(): CategoryConfig[] {
+    return this.config.categories?.length
+      ? this.config.categories
+      : (ConfigService.DEFAULT_CONFIG.categories ?? []);
+  }
+
+  /**
+   * The configured monorepo packages; empty when the repository is versioned
+   * as one unit
+   */
+  protected get packages(): PackageConfig[] {
+    return this.config.packages ?? [];
+  }
+
+  /**
+   * Describes the configured categories for use in AI prompts
    */
-  private readonly FEATURES_SECTION = 'New Features';
-  private readonly BUGS_SECTION = 'Bugs / Improvements';
+  private describeCategories(): string {
+    return this.categories
+      .map(
+        (category) =>
+          `- '${category.title}'${category.description ? `: ${category.description}` : ''}`
+      )
+      .join('\n');
+  }
 
   /**
    * Retrieves detailed information about a pull request including diff stats and commit messages.
    * @param pr - The pull request object to get details for
    * @returns A detailed object containing PR title, body, diff statistics, and commit messages
    */
-  async getPRDetails(pr: PullRequest) {
+  async getPRDetails(
+    pr: Pick<PullRequest, 'number' | 'title' | 'body' | 'html_url'> & {
+      user: { login: string } | null;
+      labels: { name: string }[];
+    }
+  ): Promise<ChangeDetails> {
     // Get PR diff stats
     const diffStats = await this.getDiffStats(pr.number);
 
@@ -37,61 +147,157 @@ export class PRService extends ConfigService {
     });
 
     // Extract commit messages
-    const commitMessages = commits.data
-      .map((commit) => commit.commit.message)
-      .join('\n');
+    const commitMessageList = commits.data.map(
+      (commit) => commit.commit.message
+    );
 
     return {
+      pr: pr.number,
       title: pr.title,
       body: pr.body || '',
-      diffFiles: diffStats.files.join('\n'),
+      author: pr.user?.login || 'Unknown',
+      url: pr.html_url,
+      labels: pr.labels.map((label) => label.name),
+      files: diffStats.files.map((file) => file.path),
       diffSummary: diffStats.summary,
-      diffContent: diffStats.content,
-      commitMessages,
+      diffChunks: diffStats.chunks,
+      commitMessageList,
     };
   }
 
   /**
-   * Gets detailed diff statistics for a pull request by analyzing the diff content.
-   * @param prNumber - The PR number to get diff stats for
-   * @returns Object containing changed files list, summary of changes, and truncated diff content
+   * Retrieves detailed information about a commit pushed without a PR, in the
+   * same shape as a PR's details. The commit message's first line is the title.
+   * @param sha - The commit SHA
+   * @returns A detailed object containing the commit's message, author and diff statistics
    */
-  async getDiffStats(prNumber: number) {
-    // Get diff content
-    const diff = await this.context.octokit.pulls.get({
+  async getCommitDetails(sha: string): Promise<ChangeDetails> {
+    const { data: commit } = await this.context.octokit.repos.getCommit({
       owner: this.context.repo().owner,
       repo: this.context.repo().repo,
-      pull_number: prNumber,
-      mediaType: {
-        format: 'diff',
-      },
+      ref: sha,
+    });
+
+    const [title, ...body] = commit.commit.message.split('\n');
+    const diffStats = this.analyzeDiff(
+      (commit.files ?? []).map((file) => ({
+        ...parsePatch(file.filename, file.patch ?? '', file.previous_filename),
+        // Patches of large files are left out, but their counts are not
+        additions: file.additions,
+        deletions: file.deletions,
+      }))
+    );
+
+    return {
+      commit: sha,
+      title,
+      body: body.join('\n').trim(),
+      author: commit.author?.login || commit.commit.author?.name || 'Unknown',
+      ...(!commit.author?.login && { gitAuthor: true }),
+      url: commit.html_url,
+      labels: [],
+      files: diffStats.files.map((file) => file.path),
+      diffSummary: diffStats.summary,
+      diffChunks: diffStats.chunks,
+      commitMessageList: [commit.commit.message],
+    };
+  }
+
+  /**
+   * Gets detailed diff statistics for a pull request from its changed files.
+   * The files are listed page by page, since GitHub refuses to render the diff
+   * of a PR with more than 300 files or 20,000 lines.
+   * @param prNumber - The PR number to get diff stats for
+   * @returns The changed files, a summary of the changes, and the diff split into chunks
+   */
+  async getDiffStats(prNumber: number): Promise<DiffAnalysis> {
+    const files = await this.context.octokit.paginate(
+      this.context.octokit.pulls.listFiles,
+      {
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        pull_number: prNumber,
+        per_page: 100,
+      }
+    );
+
+    return this.analyzeDiff(
+      files.map((file) => ({
+        ...parsePatch(file.filename, file.patch ?? '', file.previous_filename),
+        // Patches of large files are left out, but their counts are not
+        additions: file.additions,
+        deletions: file.deletions,
+      }))
+    );
+  }
+
+  /**
+   * Prepares changed files for AI summaries with the configured ignore
+   * patterns and token budgets.
+   * @param files - The changed files
+   * @returns The diff analysis
+   */
+  private analyzeDiff(files: FileDiff[]): DiffAnalysis {
+    return analyzeDiff(files, {
+      ignore: this.config.diff?.ignore ?? [],
+      maxFileTokens: this.config.diff?.maxFileTokens ?? 2000,
+      maxChunkTokens: this.config.diff?.maxChunkTokens ?? 8000,
+      maxChunks: this.config.diff?.maxChunks ?? 8,
     });
+  }
 
-    // Get diff content as text
-    const diffText = diff.data as unknown as string;
+  /**
+   * Describes a change's diff for the summary prompt. A diff that fits in one
+   * chunk is included as is. Larger diffs are summarized chunk by chunk first,
+   * and the summaries of the chunks are included instead. Chunks that could
+   * not be summarized are left out.
+   * @param details - The details of the PR or commit
+   * @returns The prompt section describing the diff
+   */
+  private async describeDiff(details: ChangeDetails): Promise<string> {
+    const chunks = details.diffChunks;
+    if (chunks.length <= 1) {
+      return `Diff:\n${chunks[0] ?? '(no diff)'}`;
+    }
 
-    // Extract files changed
-    const files: string[] = [];
-    const fileRegex = /^diff --git a\/(.*?) b\/(.*?)$/gm;
-    let match;
-    while ((match = fileRegex.exec(diffText)) !== null) {
-      files.push(match[1]);
+    const summaries: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      // One failing chunk, e.g. rate limited or too long, must not fail the
+      // whole summary
+      try {
+        const summary = await this.callLLM({
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You summarize parts of code diffs. List the changes as short bullet points, focusing on what they do rather than how.',
+            },
+            {
+              role: 'user',
+              content: `Summarize part ${index + 1} of ${chunks.length} of the diff of "${details.title}":\n\n${chunk}`,
+            },
+          ],
+        });
+        if (summary) {
+          summaries.push(`Part ${index + 1}:\n${summary}`);
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Failed to summarize part ${index + 1} of the diff, leaving it out:`,
+          error
+        );
+      }
     }
 
-    // Generate a summary of changes (simplified)
-    const additions = (diffText.match(/^\+[^+]/gm) || []).length;
-    const deletions = (diffText.match(/^-[^-]/gm) || []).length;
-    const summary = `${files.length} files changed, ${additions} insertions(+), ${deletions} deletions(-)`;
+    if (summaries.length === 0) {
+      return 'Diff: (too large to include, and could not be summarized)';
+    }
 
-    // For version determination, get a shorter sample of the diff
-    // Limit to first 2000 characters to avoid token limits
-    const content = diffText.substring(0, 2000);
+    this.logger.info(
+      `Summarized ${summaries.length} of ${chunks.length} diff chunks`
+    );
 
-    return {
-      files,
-      summary,
-      content,
-    };
+    return `The diff was too large to include, so here are summaries of its parts:\n${summaries.join('\n\n')}`;
   }
 
   /* -------------------------------------------------------------------------- */
@@ -111,68 +317,134 @@ export class PRService extends ConfigService {
 
     this.logger.info(`Handling feature merged to staging: PR #${pr.number}`);
 
-    // Get PR details
-    const prDetails = await this.getPRDetails(pr);
+    const details = await this.getPRDetails(pr);
+    const summary = await this.summarizeChanges(details);
+    if (!summary) {
+      this.logger.warn('Failed to generate AI summary, skipping PR update');
+      return;
+    }
+
+    // Update draft PR from staging to main with the new summary
+    const entry = await this.buildLedgerEntry(details, summary);
+    await this.withReleasePRLock(() =>
+      this.updateStagingToReleasePR(summary, [entry])
+    );
+
+    this.logger.info(
+      `Successfully updated draft PR with ${this.config.ai?.enabled ? 'AI' : 'commit'} summary`
+    );
+  }
+
+  /**
+   * Handles another flow's release PR merged into this flow's source branch,
+   * e.g. an rc release promoted into the stable flow. Its PRs and commits are
+   * carried over into this flow's release PR with their summaries, instead of
+   * summarizing the whole release as a single feature.
+   */
+  public async handleReleaseMergedToStaging(): Promise<void> {
+    const payload = this.context.payload as PullRequestClosedEvent & {
+      action: 'closed';
+    };
+    const pr = payload.pull_request;
+
+    const { entries } = readLedger(pr.body || '', this.categories);
+    if (entries.length === 0) {
+      this.logger.info(`Release PR #${pr.number} has no changes to carry over`);
+      return;
+    }
+
+    this.logger.info(
+      `Carrying ${entries.length} PRs and commits over from release PR #${pr.number}`
+    );
+
+    await this.withReleasePRLock(() =>
+      this.updateStagingToReleasePR(
+        summarizeLedger({ entries }, this.categories),
+        entries
+      )
+    );
+  }
+
+  /**
+   * Summarizes a merged PR's or pushed commit's changes into the configured
+   * categories, with AI or, when AI is disabled, from its Conventional Commit
+   * messages.
+   * @param prDetails - The details of the PR or commit
+   * @returns The summary, or null if the AI summary could not be generated
+   */
+  async summarizeChanges(
+    prDetails: ChangeDetails
+  ): Promise<FeatureSummary | null> {
+    // Without AI, build the summary from Conventional Commit messages instead
+    if (!this.config.ai?.enabled) {
+      const summary = summarizeConventionalCommits(
+        [prDetails.title, ...prDetails.commitMessageList],
+        this.categories
+      );
+
+      this.logger.info(
+        `Conventional commit summary: ${JSON.stringify(summary)}`
+      );
+
+      return summary;
+    }
 
-    const messages: ChatCompletionCreateParams['messages'] = [
+    const diff = await this.describeDiff(prDetails);
+
+    const messages: ChatMessage[] = [
       {
         role: 'system',
         content: this.config.ai?.featureSummaryPrompt ?? '',
-        name: 'system',
       },
       {
         role: 'user',
-        content: `Analyze this pull request and generate a concise, well-written summary of the changes. 
-          Categorize them as either '${this.FEATURES_SECTION}' or '${this.BUGS_SECTION}'.
+        content: `Analyze this ${prDetails.pr !== undefined ? 'pull request' : 'commit'} and generate a concise, well-written summary of the changes. 
+          Categorize them into these categories:
+          ${this.describeCategories()}
           
           PR Title: ${prDetails.title}
           PR Description: ${prDetails.body}
           
           Files changed: 
-          ${prDetails.diffFiles}
+          ${prDetails.files.join('\n')}
           
           Diff summary:
           ${prDetails.diffSummary}
           
-          Commit messages:
-          ${prDetails.commitMessages}
-          
-          Return your response in EXACTLY this format, with these exact section headers:
-          
-          ${this.FEATURES_SECTION}
-          - [bullet points of new features, if any]
+          ${diff}
           
-          ${this.BUGS_SECTION}
-          - [bullet points of fixes or improvements, if any]
+          Commit messages:
+          ${prDetails.commitMessageList.join('\n')}
           
-          If there are no entries for a category, include the heading but leave the bullet points empty.
-          Each bullet point should be concise and start with a dash (-).
+          Include every category, with an empty bullet list if there are no entries for it.
+          Each bullet point should be concise and must not start with a dash.
           
-          IMPORTANT: New functionality should go under ${this.FEATURES_SECTION}, while bug fixes and improvements to existing functionality should go under ${this.BUGS_SECTION}.`,
+          IMPORTANT: Place each change in the single category whose description fits it best.`,
       },
     ];
 
-    const aiSummary = await this.callOpenAI({ messages });
+    const aiSummary = await this.callLLMStructured<FeatureSummary>({
+      messages,
+      output: featureSummaryOutput(this.categories.map((c) => c.title)),
+    });
 
-    if (!aiSummary) {
-      this.logger.warn('Failed to generate AI summary, skipping PR update');
-      return;
+    if (aiSummary) {
+      this.logger.info(`AI summary: ${JSON.stringify(aiSummary)}`);
     }
 
-    this.logger.info(`AI summary: ${aiSummary}`);
-
-    // Update draft PR from staging to main with the new summary
-    await this.updateStagingToReleasePR(aiSummary);
-
-    this.logger.info('Successfully updated draft PR with AI summary');
+    return aiSummary;
   }
 
   /**
    * Updates (or creates if it doesn't exist) a PR from staging to release branch
    * with the AI-generated summary of changes.
-   * @param aiSummary - The AI-generated summary text of the changes
+   * @param aiSummary - The AI-generated summary of the changes
+   * @param entries - The ledger entries of the merged PR or pushed commits
    */
-  async updateStagingToReleasePR(aiSummary: string): Promise<void> {
+  async updateStagingToReleasePR(
+    aiSummary: FeatureSummary,
+    entries: LedgerEntry[]
+  ): Promise<void> {
     // Find the draft PR
     const draftPR = await this.findStagingToReleasePR();
 
@@ -181,35 +453,47 @@ export class PRService extends ConfigService {
     if (!prToUpdate) {
       this.logger.info('No draft PR found to release branch');
 
-      // Create a new draft PR
+      // Create a new draft PR, starting from an empty ledger
       const { data: newPR } = await this.context.octokit.pulls.create({
         owner: this.context.repo().owner,
         repo: this.context.repo().repo,
         title: `Updating ${this.config.release?.prefix ?? 'v'}${await this.getCurrentVersion()}`,
+        body: await this.renderReleasePRBody(
+          { entries: [] },
+          aiSummary.summary
+        ),
         head: this.config.branches?.staging ?? 'staging',
         base: this.config.branches?.release ?? 'main',
+        draft: true,
       });
 
       prToUpdate = newPR.number;
     }
 
     // Update the existing PR with AI summary
-    await this.updatePRWithAISummary(prToUpdate, aiSummary);
+    await this.updatePRWithAISummary(prToUpdate, aiSummary, entries);
 
     // Add comment to the PR
-    await this.addSummaryComment(prToUpdate, aiSummary);
+    await this.addSummaryComment(prToUpdate, aiSummary, entries);
 
     // Update PR title with version information
     await this.updatePRTitle(prToUpdate, aiSummary);
+
+    await this.updateReadinessCheck(prToUpdate);
   }
 
   /**
    * Updates the PR title with semantic version information based on AI analysis.
    * Calls the AI to determine version type (MAJOR/MINOR/PATCH) and generate a concise summary.
+   * Without AI, the version type comes from the entries and the summary from
+   * the ledger.
    * @param prNumber - The PR number to update
    * @param aiSummary - The AI-generated summary to analyze for versioning purposes
    */
-  async updatePRTitle(prNumber: number, aiSummary: string): Promise<void> {
+  async updatePRTitle(
+    prNumber: number,
+    aiSummary: FeatureSummary
+  ): Promise<void> {
     // Get current PR details
     const { data: pr } = await this.context.octokit.pulls.get({
       owner: this.context.repo().owner,
@@ -217,90 +501,144 @@ export class PRService extends ConfigService {
       pull_number: prNumber,
     });
 
-    const messages: ChatCompletionCreateParams['messages'] = [
+    // A `/autorelease bump` command, then release tags on the included feature
+    // PRs take precedence over the AI
+    const ledger = readLedger(pr.body || '', this.categories);
+    const taggedVersionType =
+      ledger.bumpOverride ??
+      highestVersionType(
+        ledger.entries
+          .filter((entry) => entry.bumpReason !== 'ai')
+          .map((entry) => entry.bumpType)
+      );
+
+    // Without AI, the title uses the entries' bump and the ledger's summary
+    if (!this.config.ai?.enabled) {
+      const { summary } = summarizeLedger(ledger, this.categories);
+      await this.updatePRTitleWithInfo(
+        prNumber,
+        taggedVersionType ?? aiSummary.versionType,
+        summary.length > 60 ? summary.substring(0, 57) + '...' : summary,
+        pr.body || ''
+      );
+      return;
+    }
+
+    const messages: ChatMessage[] = [
       {
         role: 'system',
         content:
           this.config.ai?.versionTypePrompt ??
           'You are a versioning expert who helps determine version changes and creates concise summaries.',
-        name: 'system',
       },
       {
         role: 'user',
         content: `Based on the following PR body and changes summary:
         
         PR Body:
-        ${pr.body || ''}
+        ${(pr.body || '').replace(/<!-- .* -->/g, '')}
         
         Changes Summary:
-        ${aiSummary}
+        ${formatSections(aiSummary.categories, this.categories)}
         
         Please provide two things:
         1. The appropriate semantic version increment type according to semver.org rules:
            - MAJOR version for incompatible API changes
            - MINOR version for added functionality in a backwards compatible manner
            - PATCH version for backwards compatible bug fixes
-        2. A concise one-line summary (maximum 60 characters) that captures the most important aspects of this release
-        
-        Format your response exactly like this:
-        VERSION_TYPE: [MAJOR/MINOR/PATCH]
-        SUMMARY: [Your concise one-line summary]
-        
-        No other explanation is needed.`,
+        2. A concise one-line summary (maximum 60 characters) that captures the most important aspects of this release`,
       },
     ];
 
-    const response = await this.callOpenAI({ messages });
+    const response = await this.callLLMStructured<VersionInfo>({
+      messages,
+      output: VERSION_INFO_OUTPUT,
+    });
 
     if (!response) {
       this.logger.warn('Failed to get version info from AI, using defaults');
       // Use defaults if AI fails
       await this.updatePRTitleWithInfo(
         prNumber,
-        'PATCH',
-        'New features and improvements'
+        taggedVersionType ?? 'PATCH',
+        ledger.summaryOverride ?? 'New features and improvements',
+        pr.body || ''
       );
       return;
     }
 
-    // Parse the response
-    const versionMatch = response.match(/VERSION_TYPE:\s*(MAJOR|MINOR|PATCH)/i);
-    const summaryMatch = response.match(/SUMMARY:\s*(.+?)(?:\n|$)/i);
+    const aiVersionType = response.versionType;
+    const versionType = taggedVersionType ?? aiVersionType;
 
-    const versionType = versionMatch ? versionMatch[1].toUpperCase() : 'PATCH';
-    const summary = summaryMatch
-      ? summaryMatch[1].trim()
-      : 'New features and improvements';
+    if (taggedVersionType && taggedVersionType !== aiVersionType) {
+      this.logger.info(
+        `Using tagged version type ${taggedVersionType} instead of AI suggestion ${aiVersionType}`
+      );
+    }
+    const summary = ledger.summaryOverride ?? response.summary.trim();
 
     // Limit summary to 60 characters
     const oneLine =
       summary.length > 60 ? summary.substring(0, 57) + '...' : summary;
 
-    await this.updatePRTitleWithInfo(prNumber, versionType, oneLine);
+    await this.updatePRTitleWithInfo(
+      prNumber,
+      versionType,
+      oneLine,
+      pr.body || ''
+    );
   }
 
   /**
-   * Updates the PR title with the format: "<VERSION_TYPE> Release: v<version>: <summary>"
+   * Updates the PR title from the `pr.draftTitle` template, by default
+   * "<VERSION_TYPE> Release: v<version>: <summary>"
    * @param prNumber - The PR number to update
    * @param versionType - The determined version type (MAJOR/MINOR/PATCH)
    * @param summary - A concise one-line summary of the changes
+   * @param prBody - The current PR body, used for contributor variables
    */
   async updatePRTitleWithInfo(
     prNumber: number,
-    versionType: string,
-    summary: string
+    versionType: VersionType,
+    summary: string,
+    prBody: string
   ): Promise<void> {
     // Get current version
     const currentVersion = await this.getCurrentVersion();
 
     // Calculate new version based on the determined type
-    const newVersion = calculateNewVersion(
-      currentVersion,
-      versionType.toLowerCase() as 'major' | 'minor' | 'patch'
-    );
+    const newVersion = this.nextVersion(currentVersion, versionType);
 
     // Create the formatted title
-    const newTitle = `${versionType} Release: ${this.config.release?.prefix ?? 'v'}${newVersion}: ${summary}`;
+    const variables = await this.buildReleaseVariables({
+      version: newVersion,
+      previousVersion: currentVersion,
+      bumpType: versionType,
+      summary,
+      features: '',
+      body: prBody,
+    });
+
+    // In a monorepo, the title lists the tag proposed for each changed package
+    if (this.packages.length > 0) {
+      const releases = await this.planPackageReleases(
+        readLedger(prBody, this.categories)
+      );
+      variables.version = releases
+        .map((release) => formatPackageTag(release.pkg, release.version))
+        .join(', ');
+    }
+
+    const newTitle = renderTemplate(
+      this.config.pr?.draftTitle ?? '{bumpType} Release: {version}: {summary}',
+      variables
+    );
+
+    // Record the proposed version in case the title is edited before merging
+    await this.updateReleasePRLedger(prNumber, (ledger) => ({
+      ...ledger,
+      proposed: { version: newVersion, bumpType: versionType },
+    }));
 
     // Update PR title
     await this.context.octokit.pulls.update({
@@ -314,523 +652,2391 @@ export class PRService extends ConfigService {
   }
 
   /* -------------------------------------------------------------------------- */
-  /*                                   HELPERS                                  */
+  /*                  HANDLE WHEN COMMITS ARE PUSHED TO STAGING                 */
   /* -------------------------------------------------------------------------- */
 
   /**
-   * Finds an existing PR from staging to release branch.
-   * Includes enhanced debugging and more flexible matching.
-   * @returns The found PR or undefined if none exists
+   * Handles commits pushed to the staging branch without a merged PR, e.g.
+   * direct pushes, cherry-picks, or merges made outside of GitHub PRs. Each
+   * such commit is summarized like a feature PR and added to the release PR,
+   * attributed to its author. Commits of merged PRs are skipped, since the PR
+   * is handled when it is merged.
    */
-  async findStagingToReleasePR() {
-    const owner = this.context.repo().owner;
-    const repo = this.context.repo().repo;
-    const stagingBranch = this.config.branches?.staging ?? 'staging';
-    const releaseBranch = this.config.branches?.release ?? 'main';
-
-    this.logger.info(
-      `Looking for PRs from ${stagingBranch} to ${releaseBranch} in ${owner}/${repo}`
-    );
-
-    try {
-      // First, try with the fully qualified head reference
-      const { data: prs } = await this.context.octokit.pulls.list({
-        owner: owner,
-        repo: repo,
-        state: 'open',
-        head: `${owner}:${stagingBranch}`,
-        base: releaseBranch,
-      });
+  public async handlePushToStaging(): Promise<void> {
+    const payload = this.context.payload as PushEvent;
 
-      this.logger.info(`Found ${prs.length} PRs matching the criteria`);
+    const unprocessed: string[] = [];
+    for (const commit of await this.getPushedCommits(payload)) {
+      if (SKIPPED_COMMIT_REGEX.test(commit.message)) {
+        continue;
+      }
 
-      if (prs.length === 0) {
-        // If no results, try without owner prefix (sometimes GitHub omits it)
-        const { data: simplePrs } = await this.context.octokit.pulls.list({
-          owner: owner,
-          repo: repo,
-          state: 'open',
-          head: stagingBranch,
-          base: releaseBranch,
+      const { data: prs } =
+        await this.context.octokit.repos.listPullRequestsAssociatedWithCommit({
+          owner: this.context.repo().owner,
+          repo: this.context.repo().repo,
+          commit_sha: commit.sha,
         });
 
-        this.logger.info(
-          `Retried with simplified branch name, found ${simplePrs.length} PRs`
-        );
-
-        if (simplePrs.length > 0) {
-          // Log all found PRs for debugging
-          for (const pr of simplePrs) {
-            this.logger.info(
-              `PR #${pr.number}: "${pr.title}" (Draft: ${pr.draft}, Head: ${pr.head.ref}, Base: ${pr.base.ref})`
-            );
-          }
+      if (!prs.some((pr) => pr.merged_at)) {
+        unprocessed.push(commit.sha);
+      }
+    }
 
-          // Try to find any PR, not just drafts
-          const targetPR =
-            simplePrs.find((pr) => pr.draft === true) || simplePrs[0];
-          this.logger.info(`Selected PR #${targetPR.number}`);
-          return targetPR;
-        }
+    if (unprocessed.length === 0) {
+      this.logger.info('No commits pushed without a PR, skipping');
+      return;
+    }
 
-        return undefined;
-      }
+    this.logger.info(
+      `Handling ${unprocessed.length} commit(s) pushed to staging without a PR`
+    );
 
-      // Log all found PRs for debugging
-      for (const pr of prs) {
-        this.logger.info(
-          `PR #${pr.number}: "${pr.title}" (Draft: ${pr.draft}, Head: ${pr.head.ref}, Base: ${pr.base.ref})`
+    const entries: LedgerEntry[] = [];
+    for (const sha of unprocessed) {
+      const details = await this.getCommitDetails(sha);
+      const summary = await this.summarizeChanges(details);
+      if (!summary) {
+        this.logger.warn(
+          `Failed to generate AI summary for commit ${sha}, skipping it`
         );
+        continue;
       }
 
-      // First try to find a draft PR, but if none exists, return any matching PR
-      const draftPR = prs.find((pr) => pr.draft === true);
-      if (draftPR) {
-        this.logger.info(`Found draft PR #${draftPR.number}`);
-        return draftPR;
-      } else if (prs.length > 0) {
-        this.logger.info(
-          `No draft PR found, using PR #${prs[0].number} instead`
-        );
-        return prs[0]; // Return the first matching PR even if it's not a draft
-      }
+      entries.push(await this.buildLedgerEntry(details, summary));
+    }
 
-      return undefined;
-    } catch (error) {
-      this.logger.error(`Error finding staging to release PR: ${error}`);
-      return undefined;
+    if (entries.length === 0) {
+      return;
     }
+
+    // Summarize the pushed commits together, as if they were one PR
+    await this.withReleasePRLock(() =>
+      this.updateStagingToReleasePR(
+        summarizeLedger({ entries }, this.categories),
+        entries
+      )
+    );
+
+    this.logger.info(
+      `Successfully updated draft PR with ${entries.length} pushed commit(s)`
+    );
   }
 
   /**
-   * Gets the current version from the latest release or tag.
-   * Falls back to 0.0.0 if no releases or tags are found.
-   * @returns The current semantic version string (e.g., "1.2.3")
+   * Lists the commits a push added to the branch. Push payloads include at most
+   * 20 commits, so the full list comes from comparing the commits before and
+   * after the push. Commits already on another branch, e.g. from a back-merge,
+   * are not new and are left out.
+   * @param payload - The push event payload
+   * @returns The SHAs and messages of the pushed commits, oldest first
    */
-  async getCurrentVersion(): Promise<string> {
-    try {
-      // Try to get latest release
-      try {
-        const { data: latestRelease } =
-          await this.context.octokit.repos.getLatestRelease({
-            owner: this.context.repo().owner,
-            repo: this.context.repo().repo,
-          });
+  async getPushedCommits(
+    payload: PushEvent
+  ): Promise<{ sha: string; message: string }[]> {
+    const notDistinct = new Set(
+      payload.commits
+        .filter((commit) => !commit.distinct)
+        .map((commit) => commit.id)
+    );
 
-        // Extract version from tag name (remove 'v' prefix if present)
-        const version = latestRelease.tag_name.replace(/^v/, '');
-        this.logger.info(`Latest release version: ${version}`);
-        return version;
-      } catch (error) {
-        // If no releases found, try to get latest tag
-        const { data: tags } = await this.context.octokit.repos.listTags({
-          owner: this.context.repo().owner,
-          repo: this.context.repo().repo,
-          per_page: 1,
-        });
+    // A new branch has no commit to compare from
+    if (/^0+$/.test(payload.before)) {
+      return payload.commits
+        .filter((commit) => commit.distinct)
+        .map((commit) => ({ sha: commit.id, message: commit.message }));
+    }
 
-        if (tags.length > 0) {
-          const version = tags[0].name.replace(
-            new RegExp(`^${this.config.release?.prefix ?? 'v'}`),
-            ''
-          );
-          this.logger.info(`Latest tag version: ${version}`);
-          return version;
-        }
+    const commits = await this.context.octokit.paginate(
+      this.context.octokit.repos.compareCommitsWithBasehead,
+      {
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        basehead: `${payload.before}...${payload.after}`,
+        per_page: 100,
+      },
+      (response) => response.data.commits
+    );
 
-        // If no tags found, start with 0.0.0
-        this.logger.info('No releases or tags found, starting with 0.0.0');
-        return '0.0.0';
-      }
-    } catch (error) {
-      this.logger.error('Error getting current version:', error);
-      return '0.0.0';
-    }
+    return commits
+      .filter((commit) => !notDistinct.has(commit.sha))
+      .map((commit) => ({ sha: commit.sha, message: commit.commit.message }));
   }
 
+  /* -------------------------------------------------------------------------- */
+  /*                HANDLE WHEN A FEATURE IS REVERTED OR CLOSED                 */
+  /* -------------------------------------------------------------------------- */
+
   /**
-   * Updates the PR body with an AI-generated summary, adding attribution to each bullet point.
-   * Organizes content into appropriate sections (New Features or Bugs/Improvements).
-   * @param prNumber - The PR number to update
-   * @param aiSummary - The AI-generated summary text to add to the PR body
+   * Handles a PR merged to staging that reverts earlier feature PRs, either as a
+   * GitHub "Revert" PR or through `Revert "..."` commits. The reverted PRs are
+   * removed from the staging-to-release PR.
+   * @returns True if the PR only reverted unreleased PRs and needs no summary,
+   * false if it should still be summarized as a feature PR
    */
-  async updatePRWithAISummary(
-    prNumber: number,
-    aiSummary: string
-  ): Promise<void> {
-    this.logger.info(`Updating PR #${prNumber} with AI summary`);
-    this.logger.debug(`AI summary: ${aiSummary}`);
-
-    // Get the source PR that was merged (from the payload)
+  public async handleRevertMergedToStaging(): Promise<boolean> {
     const payload = this.context.payload as PullRequestClosedEvent & {
       action: 'closed';
     };
-    const sourcePR = payload.pull_request;
-    const prAuthor = sourcePR.user?.login || 'Unknown';
-    const prLink = sourcePR.html_url;
+    const pr = payload.pull_request;
 
-    // Get current PR body
-    const { data: pr } = await this.context.octokit.pulls.get({
+    const { data: commits } = await this.context.octokit.pulls.listCommits({
       owner: this.context.repo().owner,
       repo: this.context.repo().repo,
-      pull_number: prNumber,
+      pull_number: pr.number,
     });
 
-    let prBody = pr.body || '';
+    const revert = detectRevert(
+      { title: pr.title, body: pr.body || '' },
+      commits.map((commit) => commit.commit.message)
+    );
 
-    // Parse the AI summary to separate features from fixes
-    const parsedSections = parseSummary(aiSummary);
-    this.logger.debug(`Parsed sections: ${JSON.stringify(parsedSections)}`);
+    if (!revert) {
+      return false;
+    }
 
-    // Add attribution only to the new bullets
-    const featureBullets =
-      parsedSections.find((s) => s.type === this.FEATURES_SECTION)?.bullets ||
-      [];
-    const bugBullets =
-      parsedSections.find((s) => s.type === this.BUGS_SECTION)?.bullets || [];
+    this.logger.info(`PR #${pr.number} reverts ${JSON.stringify(revert)}`);
 
-    this.logger.info(
-      `Found ${featureBullets.length} feature bullets and ${bugBullets.length} bug/improvement bullets`
+    const releasePR = await this.findStagingToReleasePR();
+    if (!releasePR) {
+      this.logger.info('No release PR found, nothing to remove');
+      return false;
+    }
+
+    const reverted = new Set(revert.prNumbers);
+
+    // Find the PRs that introduced the reverted commits
+    for (const sha of revert.commitShas) {
+      const { data: prs } =
+        await this.context.octokit.repos.listPullRequestsAssociatedWithCommit({
+          owner: this.context.repo().owner,
+          repo: this.context.repo().repo,
+          commit_sha: sha,
+        });
+
+      prs
+        .filter((associated) => associated.number !== pr.number)
+        .forEach((associated) => reverted.add(associated.number));
+    }
+
+    // Fall back to matching the reverted PR by title
+    if (revert.revertedTitle) {
+      readLedger(releasePR.body || '', this.categories)
+        .entries.filter((entry) => entry.title === revert.revertedTitle)
+        .forEach((entry) => {
+          if (entry.pr !== undefined) {
+            reverted.add(entry.pr);
+          }
+        });
+    }
+
+    const removed = await this.withReleasePRLock(() =>
+      this.removeFromReleasePR(
+        releasePR.number,
+        Array.from(reverted),
+        `reverted by #${pr.number}`
+      )
     );
 
-    // Process feature bullets - add attribution ONLY to these new bullets
-    const featureBulletsWithAttribution = featureBullets.map(
-      (bullet) =>
-        `- ${bullet} (via [#${sourcePR.number}](${prLink}) by @${prAuthor})`
+    // Reverting changes that were already released belongs in the release notes
+    return revert.isRevertPR && removed.length > 0;
+  }
+
+  /**
+   * Handles a PR to staging that was closed without merging by removing it from
+   * the staging-to-release PR, in case it had been included.
+   */
+  public async handleFeatureClosedOnStaging(): Promise<void> {
+    const payload = this.context.payload as PullRequestClosedEvent & {
+      action: 'closed';
+    };
+    const pr = payload.pull_request;
+
+    const releasePR = await this.findStagingToReleasePR();
+    if (!releasePR) {
+      return;
+    }
+
+    await this.withReleasePRLock(() =>
+      this.removeFromReleasePR(
+        releasePR.number,
+        [pr.number],
+        'closed without merging'
+      )
     );
+  }
+
+  /**
+   * Removes feature PRs from the release PR's ledger, re-renders the PR body and
+   * recomputes the proposed version bump from the remaining PRs.
+   * @param prNumber - The release PR number
+   * @param prNumbers - The feature PRs to remove
+   * @param reason - Why the PRs are removed, for the PR comment
+   * @returns The removed ledger entries
+   */
+  async removeFromReleasePR(
+    prNumber: number,
+    keys: (number | string)[],
+    reason: string
+  ): Promise<LedgerEntry[]> {
+    const { data: pr } = await this.context.octokit.pulls.get({
+      owner: this.context.repo().owner,
+      repo: this.context.repo().repo,
+      pull_number: prNumber,
+    });
 
-    // Process bug/improvement bullets - add attribution ONLY to these new bullets
-    const bugBulletsWithAttribution = bugBullets.map(
-      (bullet) =>
-        `- ${bullet} (via [#${sourcePR.number}](${prLink}) by @${prAuthor})`
+    const ledger = readLedger(pr.body || '', this.categories);
+    const removed = ledger.entries.filter((entry) =>
+      keys.includes(entry.pr ?? entry.commit ?? '')
     );
 
-    // Update the PR body by adding only the new bullets with attribution
-    prBody = this.addNewBulletsToBody(
-      prBody,
-      this.FEATURES_SECTION,
-      featureBulletsWithAttribution,
-      this.BUGS_SECTION,
-      bugBulletsWithAttribution
+    if (removed.length === 0) {
+      this.logger.info(
+        `None of ${keys.map((key) => (typeof key === 'number' ? `#${key}` : key.slice(0, 7))).join(', ')} are in release PR #${prNumber}`
+      );
+      return [];
+    }
+
+    const { ledger: updated } = await this.updateReleasePRLedger(
+      prNumber,
+      (current) => keys.reduce(removeLedgerEntry, current)
     );
+    const summary = summarizeLedger(updated, this.categories);
+
+    await this.context.octokit.issues.createComment({
+      owner: this.context.repo().owner,
+      repo: this.context.repo().repo,
+      issue_number: prNumber,
+      body: `### Removed ${removed.map((entry) => `"${entry.title}" (${entryReference(entry)})`).join(', ')}
 
-    // Update timestamp
-    prBody = prBody.replace(
-      /\*Last updated:.*\*/,
-      `*Last updated: ${new Date().toISOString()}*`
+These changes were ${reason} and are no longer part of this release.`,
+    });
+
+    this.logger.info(
+      `Removed ${removed.map(entryReference).join(', ')} from release PR #${prNumber}`
     );
 
-    this.logger.debug(`Updated PR body: ${prBody}`);
+    // Recompute the proposed version bump from the remaining PRs
+    await this.refreshPRTitle(prNumber, updated, summary);
+
+    await this.updateReadinessCheck(prNumber);
+
+    return removed;
+  }
+
+  /**
+   * Recomputes the release PR title and proposed version from its ledger, or
+   * resets them to the current version when no PRs are left.
+   * @param prNumber - The release PR number
+   * @param ledger - The release PR's ledger
+   * @param summary - The summary of the ledger
+   */
+  async refreshPRTitle(
+    prNumber: number,
+    ledger: ReleaseLedger,
+    summary: FeatureSummary
+  ): Promise<void> {
+    if (ledger.entries.length > 0) {
+      await this.updatePRTitle(prNumber, summary);
+      return;
+    }
 
-    // Update PR
+    // Nothing is proposed for release until PRs are added again
+    await this.updateReleasePRLedger(prNumber, (current) => ({
+      ...current,
+      proposed: undefined,
+    }));
     await this.context.octokit.pulls.update({
       owner: this.context.repo().owner,
       repo: this.context.repo().repo,
       pull_number: prNumber,
-      body: prBody,
+      title: `Updating ${this.config.release?.prefix ?? 'v'}${await this.getCurrentVersion()}`,
     });
-
-    this.logger.info(`Updated PR #${prNumber} with AI summary`);
   }
 
+  /* -------------------------------------------------------------------------- */
+  /*                           REBUILD THE RELEASE PR                           */
+  /* -------------------------------------------------------------------------- */
+
   /**
-   * Adds new bullets to specific sections of the PR body without modifying existing content
-   * @param prBody - The current PR body
-   * @param featuresSection - The name of the features section
-   * @param featureBullets - The new feature bullets to add
-   * @param bugsSection - The name of the bugs/improvements section
-   * @param bugBullets - The new bug bullets to add
-   * @returns The updated PR body
+   * Rebuilds the release PR from scratch from the changes between the release
+   * and staging branches, re-summarizing every merged PR and every commit
+   * pushed without a PR. Recovers PRs that never made it into the release PR,
+   * e.g. because the app was down or the AI summary failed. Removed PRs stay
+   * removed, reverted PRs are dropped together with their revert, and
+   * overrides from commands are kept.
+   * @param prNumber - The release PR number
+   * @returns The rebuilt ledger
    */
-  private addNewBulletsToBody(
-    prBody: string,
-    featuresSection: string,
-    featureBullets: string[],
-    bugsSection: string,
-    bugBullets: string[]
-  ): string {
-    // Create section headers if they don't exist
-    if (!prBody.includes(`## ${featuresSection}`)) {
-      prBody += `\n\n## ${featuresSection}\n<!-- New feature summaries will be added here -->\n`;
-    }
+  async rebuildReleasePR(prNumber: number): Promise<ReleaseLedger> {
+    const owner = this.context.repo().owner;
+    const repo = this.context.repo().repo;
+    const stagingBranch = this.config.branches?.staging ?? 'staging';
+    const releaseBranch = this.config.branches?.release ?? 'main';
 
-    if (!prBody.includes(`## ${bugsSection}`)) {
-      prBody += `\n\n## ${bugsSection}\n<!-- Bug fixes and improvements will be added here -->\n`;
-    }
+    this.logger.info(
+      `Rebuilding release PR #${prNumber} from ${releaseBranch}...${stagingBranch}`
+    );
 
-    // Add feature bullets
-    if (featureBullets.length > 0) {
-      // Find the features section
-      const featureRegex = new RegExp(
-        `(## ${featuresSection}.*?)(\\n## |$)`,
-        's'
-      );
-      const featureMatch = prBody.match(featureRegex);
+    const { data: pr } = await this.context.octokit.pulls.get({
+      owner,
+      repo,
+      pull_number: prNumber,
+    });
+    const previous = readLedger(pr.body || '', this.categories);
+    const excluded = previous.excluded ?? [];
+
+    const commits = await this.context.octokit.paginate(
+      this.context.octokit.repos.compareCommitsWithBasehead,
+      {
+        owner,
+        repo,
+        basehead: `${releaseBranch}...${stagingBranch}`,
+        per_page: 100,
+      },
+      (response) => response.data.commits
+    );
 
-      if (featureMatch) {
-        // Insert after the header and any HTML comments
-        const sectionContent = featureMatch[1];
-        const insertPoint = sectionContent.match(/<!--.*?-->\n/)?.[0]?.length
-          ? sectionContent.indexOf(
-              '\n',
-              sectionContent?.match(/<!--.*?-->\n/)?.[0]?.length ?? 0
-            ) + 1
-          : sectionContent.indexOf('\n') + 1;
+    // Find the merged PRs in the range, and the commits pushed without one
+    const prNumbers: number[] = [];
+    const pushedCommits: string[] = [];
+    for (const commit of commits) {
+      if (SKIPPED_COMMIT_REGEX.test(commit.commit.message)) {
+        continue;
+      }
 
-        // Construct the updated section
-        const newSectionContent =
-          sectionContent.substring(0, insertPoint) +
-          featureBullets.join('\n') +
-          (featureBullets.length > 0 ? '\n' : '') +
-          sectionContent.substring(insertPoint);
+      const { data: prs } =
+        await this.context.octokit.repos.listPullRequestsAssociatedWithCommit({
+          owner,
+          repo,
+          commit_sha: commit.sha,
+        });
+      const merged = prs.filter(
+        (associated) =>
+          associated.merged_at && associated.base.ref === stagingBranch
+      );
 
-        // Replace the old section with the new one
-        prBody = prBody.replace(featureMatch[1], newSectionContent);
+      // Commits of PRs merged into another flow's source arrive with that
+      // flow's release PR, which carries them over
+      if (!prs.some((associated) => associated.merged_at)) {
+        pushedCommits.push(commit.sha);
+      }
+      for (const associated of merged) {
+        if (!prNumbers.includes(associated.number)) {
+          prNumbers.push(associated.number);
+        }
       }
     }
 
-    // Add bug bullets
-    if (bugBullets.length > 0) {
-      // Find the bugs section
-      const bugRegex = new RegExp(`(## ${bugsSection}.*?)(\\n## |$)`, 's');
-      const bugMatch = prBody.match(bugRegex);
+    const sources: ChangeDetails[] = [];
+    const carried: LedgerEntry[] = [];
+    for (const number of prNumbers.filter((n) => !excluded.includes(n))) {
+      const { data: merged } = await this.context.octokit.pulls.get({
+        owner,
+        repo,
+        pull_number: number,
+      });
 
-      if (bugMatch) {
-        // Insert after the header and any HTML comments
-        const sectionContent = bugMatch[1];
-        const insertPoint = sectionContent.match(/<!--.*?-->\n/)?.[0]?.length
-          ? sectionContent.indexOf(
-              '\n',
-              sectionContent.match(/<!--.*?-->\n/)?.[0]?.length ?? 0
-            ) + 1
-          : sectionContent.indexOf('\n') + 1;
+      if (
+        matchReleaseFlows(this.config, merged.base.ref, merged.head.ref)
+          .length > 0
+      ) {
+        carried.push(...readLedger(merged.body || '', this.categories).entries);
+        continue;
+      }
 
-        // Construct the updated section
-        const newSectionContent =
-          sectionContent.substring(0, insertPoint) +
-          bugBullets.join('\n') +
-          (bugBullets.length > 0 ? '\n' : '') +
-          sectionContent.substring(insertPoint);
+      sources.push(await this.getPRDetails(merged));
+    }
 
-        // Replace the old section with the new one
-        prBody = prBody.replace(bugMatch[1], newSectionContent);
+    // Drop revert PRs together with the PRs they revert, when both are pending
+    const reverted = new Set<number>();
+    for (const source of sources) {
+      const revert = detectRevert(source, source.commitMessageList);
+      if (
+        source.pr !== undefined &&
+        revert?.isRevertPR &&
+        revert.prNumbers.length > 0 &&
+        revert.prNumbers.every((n) => prNumbers.includes(n))
+      ) {
+        revert.prNumbers.forEach((n) => reverted.add(n));
+        reverted.add(source.pr);
       }
     }
 
-    return prBody;
-  }
+    for (const sha of pushedCommits.filter((sha) => !excluded.includes(sha))) {
+      sources.push(await this.getCommitDetails(sha));
+    }
 
-  /**
-   * Adds a comment to the PR with a summary of the merged changes.
-   * The comment includes the original PR's title, number, author, and the AI-generated summary.
-   * @param prNumber - The PR number to comment on
-   * @param aiSummary - The AI-generated summary to include in the comment
-   */
-  async addSummaryComment(prNumber: number, aiSummary: string): Promise<void> {
-    // Get the source PR that was merged (from the payload)
-    const payload = this.context.payload as PullRequestClosedEvent & {
-      action: 'closed';
-    };
-    const sourcePR = payload.pull_request;
-    const prAuthor = sourcePR.user?.login || 'Unknown';
-    const prTitle = sourcePR.title;
-    const sourcePRNumber = sourcePR.number;
+    const entries: LedgerEntry[] = [...carried];
+    for (const source of sources) {
+      if (source.pr !== undefined && reverted.has(source.pr)) {
+        continue;
+      }
 
-    // Create comment title and body
-    const commentTitle = `### Merged: "${prTitle}" (#${sourcePRNumber}) by @${prAuthor}`;
+      const summary = await this.summarizeChanges(source);
+      if (summary) {
+        entries.push(await this.buildLedgerEntry(source, summary));
+        continue;
+      }
 
-    // Format the comment body
-    const commentBody = `${commentTitle}
+      // Keep the previous entry rather than losing the change
+      const existing = previous.entries.find((entry) =>
+        source.pr !== undefined
+          ? entry.pr === source.pr
+          : entry.commit === source.commit
+      );
+      this.logger.warn(
+        `Failed to summarize ${source.pr !== undefined ? `PR #${source.pr}` : `commit ${source.commit}`}${existing ? ', keeping its previous entry' : ', skipping it'}`
+      );
+      if (existing) {
+        entries.push(existing);
+      }
+    }
 
-${aiSummary}
+    // PRs removed while rebuilding stay removed
+    const { ledger } = await this.updateReleasePRLedger(
+      prNumber,
+      (current) => ({
+        ...current,
+        entries: entries.filter((entry) => !isExcluded(current, entry)),
+      })
+    );
+    const summary = summarizeLedger(ledger, this.categories);
 
----
-_This summary was generated automatically by AI_`;
+    this.logger.info(
+      `Rebuilt release PR #${prNumber} with ${ledger.entries.length} PRs and commits`
+    );
 
-    // Add comment to the PR
-    await this.context.octokit.issues.createComment({
-      owner: this.context.repo().owner,
-      repo: this.context.repo().repo,
-      issue_number: prNumber,
-      body: commentBody,
-    });
+    await this.refreshPRTitle(prNumber, ledger, summary);
+    await this.updateReadinessCheck(prNumber);
 
-    this.logger.info(`Added summary comment to PR #${prNumber}`);
+    return ledger;
   }
 
+  /* -------------------------------------------------------------------------- */
+  /*                  HANDLE WHEN A HOTFIX IS MERGED TO RELEASE                 */
+  /* -------------------------------------------------------------------------- */
+
   /**
-   * Handles the logic when the staging branch is merged to the release branch.
-   * Creates a GitHub release with the appropriate version and release notes.
+   * Handles a PR merged straight into the release branch, bypassing staging.
+   * Summarizes the PR, cuts a patch release from it, back-merges the release
+   * branch into staging, and removes the PR from the pending release PR.
    */
-  public async handleStagingMergedToRelease(): Promise<void> {
+  public async handleHotfixMergedToRelease(): Promise<void> {
     const payload = this.context.payload as PullRequestClosedEvent & {
       action: 'closed';
     };
-
     const pr = payload.pull_request;
 
-    // Verify this is a merge from staging to release
-    if (!pr.merged) {
+    if (!this.config.hotfix?.enabled) {
       this.logger.info(
-        'PR was closed but not merged, skipping release creation'
+        `PR #${pr.number} was merged into ${pr.base.ref} but hotfixes are disabled, skipping`
       );
       return;
     }
 
-    const headBranch = pr.head.ref;
-    const baseBranch = pr.base.ref;
-    const stagingBranch = this.config.branches?.staging ?? 'staging';
-    const releaseBranch = this.config.branches?.release ?? 'main';
+    this.logger.info(`Handling hotfix merged to release: PR #${pr.number}`);
 
-    if (headBranch !== stagingBranch || baseBranch !== releaseBranch) {
-      this.logger.info(
-        `PR #${pr.number} is not from ${stagingBranch} to ${releaseBranch}, skipping release creation`
+    const details = await this.getPRDetails(pr);
+    const released = await this.releaseHotfix(pr, details);
+    if (!released) {
+      this.logger.warn(
+        `Hotfix #${pr.number} was not released, skipping the back-merge`
       );
       return;
     }
 
-    this.logger.info(`Handling staging merged to release: PR #${pr.number}`);
+    // The hotfix is released, so failures from here on must not retry it
+    try {
+      await this.backMergeHotfix(pr.number);
+    } catch (error) {
+      this.logger.error(`Failed to back-merge hotfix #${pr.number}:`, error);
+    }
 
-    // Extract version type and version number from PR title
-    // Example PR title: "MINOR Release: v1.2.0: Add user authentication"
-    const titleMatch = pr.title.match(
-      /^(MAJOR|MINOR|PATCH) Release: (v?\d+\.\d+\.\d+):/i
-    );
-    if (!titleMatch) {
-      this.logger.warn(
-        `Cannot parse version from PR title: ${pr.title}, skipping release creation`
+    try {
+      await this.updatePendingReleaseAfterHotfix(pr.number, [
+        pr.title,
+        ...details.commitMessageList.map((message) => message.split('\n')[0]),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Failed to update the release PR after hotfix #${pr.number}:`,
+        error
       );
-      return;
+    }
+  }
+
+  /**
+   * Releases a hotfix on its own, as a patch of the current version. The
+   * patch is computed from the current version, so the release is skipped if
+   * the current version's tag already includes the hotfix, e.g. when the
+   * release is retried.
+   * @param pr - The merged hotfix PR
+   * @param details - The hotfix PR's details
+   * @returns True if the hotfix is released
+   */
+  async releaseHotfix(
+    pr: PullRequest,
+    details: ChangeDetails
+  ): Promise<boolean> {
+    if (this.packages.length === 0 && pr.merge_commit_sha) {
+      const currentTag = `${this.config.release?.prefix ?? 'v'}${await this.getCurrentVersion()}`;
+      if (await this.tagIncludesCommit(currentTag, pr.merge_commit_sha)) {
+        this.logger.info(
+          `${currentTag} already includes hotfix #${pr.number}, skipping the release`
+        );
+        return true;
+      }
     }
 
-    const [, versionType, versionFromTitle] = titleMatch;
+    const summary = await this.summarizeChanges(details);
+    if (!summary) {
+      this.logger.warn(
+        'Failed to generate AI summary, skipping hotfix release'
+      );
+      return false;
+    }
 
-    // Ensure version has the correct prefix from config
-    const versionPrefix = this.config.release?.prefix ?? 'v';
-    const versionWithoutPrefix = versionFromTitle.replace(/^v?/, '');
-    const version = `${versionPrefix}${versionWithoutPrefix}`;
+    const ledger: ReleaseLedger = {
+      entries: [await this.buildLedgerEntry(details, summary)],
+      bumpOverride: 'PATCH',
+    };
+    const hotfixPR: ReleasePR = {
+      number: pr.number,
+      title: pr.title,
+      body: `${renderLedger(ledger, this.categories, false)}\n\n${serializeLedger(ledger)}`,
+      labels: pr.labels.map((label) => label.name),
+      mergeCommitSha: pr.merge_commit_sha,
+    };
 
-    try {
-      // Create a GitHub release
-      const { data: release } = await this.context.octokit.repos.createRelease({
-        owner: this.context.repo().owner,
-        repo: this.context.repo().repo,
-        tag_name: version,
-        name: version,
-        body: await this.formatReleaseNotes(pr.body || '', versionType),
-        target_commitish: releaseBranch,
-        draft: false,
-        prerelease: false,
-      });
+    // Packages already released from the hotfix are skipped by releasePackages
+    return this.packages.length > 0
+      ? this.releasePackages(hotfixPR)
+      : (await this.releaseFromPR(hotfixPR, 'patch')) === null;
+  }
 
-      this.logger.info(`Created release ${version}: ${release.html_url}`);
+  /**
+   * Updates the pending release PR after a hotfix release. The same change,
+   * e.g. cherry-picked into staging, must not be released again, so entries
+   * matching the hotfix's PR title or commit subjects are removed. The title
+   * and readiness check are refreshed either way, since the pending release's
+   * version now follows the hotfix's.
+   * @param hotfixNumber - The released hotfix PR
+   * @param titles - The hotfix's PR title and commit subjects
+   */
+  async updatePendingReleaseAfterHotfix(
+    hotfixNumber: number,
+    titles: string[]
+  ): Promise<void> {
+    await this.withReleasePRLock(async () => {
+      const releasePR = await this.findStagingToReleasePR();
+      if (!releasePR) {
+        return;
+      }
 
-      // Add a release comment to the PR
-      await this.context.octokit.issues.createComment({
+      const { data: pending } = await this.context.octokit.pulls.get({
         owner: this.context.repo().owner,
         repo: this.context.repo().repo,
-        issue_number: pr.number,
-        body: `🎉 Release [${version}](${release.html_url}) has been published!`,
+        pull_number: releasePR.number,
       });
-    } catch (error) {
-      this.logger.error(`Failed to create release ${version}:`, error);
-      throw error;
-    }
+      const ledger = readLedger(pending.body || '', this.categories);
+      const duplicates = findEntriesByTitle(ledger, titles);
+
+      // Removing entries refreshes the title and readiness check as well
+      if (duplicates.length > 0) {
+        await this.removeFromReleasePR(
+          releasePR.number,
+          duplicates.map((entry) => entry.pr ?? entry.commit ?? ''),
+          `released in hotfix #${hotfixNumber}`
+        );
+        return;
+      }
+
+      await this.refreshPRTitle(
+        releasePR.number,
+        ledger,
+        summarizeLedger(ledger, this.categories)
+      );
+      await this.updateReadinessCheck(releasePR.number);
+    });
   }
 
   /**
-   * Formats the PR body into proper release notes by removing placeholders,
-   * cleaning up internal comments, and adding release metadata.
-   *
-   * @param prBody - The pull request body text to format
-   * @param versionType - The version type (MAJOR/MINOR/PATCH)
-   * @returns Formatted release notes
+   * Brings a hotfix back into staging so the branches do not diverge, either
+   * by opening a back-merge PR from release to staging (reusing an open one),
+   * or by merging directly when `hotfix.backMerge` is "merge".
+   * @param prNumber - The hotfix PR
    */
-  private async formatReleaseNotes(
-    prBody: string,
-    versionType: string
-  ): Promise<string> {
-    // Extract existing content from PR body
-    // This will be sent to the AI for summarization
-    const existingContent = prBody.replace(/<!-- .* -->/g, '');
+  async backMergeHotfix(prNumber: number): Promise<void> {
+    const owner = this.context.repo().owner;
+    const repo = this.context.repo().repo;
+    const stagingBranch = this.config.branches?.staging ?? 'staging';
+    const releaseBranch = this.config.branches?.release ?? 'main';
 
-    // Generate AI summary
-    const aiSummary = await this.generateAISummary(existingContent);
+    try {
+      if (this.config.hotfix?.backMerge === 'merge') {
+        await this.context.octokit.repos.merge({
+          owner,
+          repo,
+          base: stagingBranch,
+          head: releaseBranch,
+          commit_message: `chore(release): merge hotfix #${prNumber} back into ${stagingBranch}`,
+        });
+
+        this.logger.info(`Back-merged ${releaseBranch} into ${stagingBranch}`);
+        return;
+      }
 
-    // Add release metadata
-    const metadata = [
-      `**Release Type:** ${versionType}`,
-      `**Release Date:** ${new Date().toISOString().split('T')[0]}`,
-    ].join('\n');
+      const { data: existing } = await this.context.octokit.pulls.list({
+        owner,
+        repo,
+        state: 'open',
+        head: `${owner}:${releaseBranch}`,
+        base: stagingBranch,
+      });
+
+      if (existing.length > 0) {
+        this.logger.info(
+          `Back-merge PR #${existing[0].number} is already open, reusing it`
+        );
+        return;
+      }
 
-    // Construct final release notes with metadata and AI summary
-    let notes = '';
-    const releaseHeaderRegex = /# Release .+\n/;
+      const { data: created } = await this.context.octokit.pulls.create({
+        owner,
+        repo,
+        title: `chore(release): merge ${releaseBranch} back into ${stagingBranch}`,
+        head: releaseBranch,
+        base: stagingBranch,
+        body: `Brings hotfix #${prNumber} back into \`${stagingBranch}\` so the branches do not diverge.`,
+      });
 
-    if (releaseHeaderRegex.test(existingContent)) {
-      const releaseTitle = existingContent.match(releaseHeaderRegex)?.[0];
-      notes = `${releaseTitle}\n${metadata}\n\n${aiSummary}`;
-    } else {
-      notes = `# Release\n\n${metadata}\n\n${aiSummary}`;
+      this.logger.info(`Created back-merge PR #${created.number}`);
+    } catch (error) {
+      // Merging fails on conflicts, and creating the PR when there is nothing to merge
+      this.logger.error(
+        `Failed to back-merge ${releaseBranch} into ${stagingBranch}:`,
+        error
+      );
     }
+  }
 
-    // Add footer
-    notes += `\n\n---\n*This release was automatically published by the GitHub Release Bot with AI-generated summary.*`;
+  /* -------------------------------------------------------------------------- */
+  /*                           RELEASE READINESS CHECK                          */
+  /* -------------------------------------------------------------------------- */
+
+  /**
+   * Handles the staging-to-release PR being opened, edited or pushed to by
+   * refreshing its release readiness check.
+   */
+  public async handleReleasePRUpdated(): Promise<void> {
+    const payload = this.context.payload as PullRequestEvent;
 
-    return notes;
+    await this.updateReadinessCheck(payload.pull_request.number);
   }
 
-  private async generateAISummary(prContent: string): Promise<string> {
+  /**
+   * Publishes a check run on the release PR's head commit with the next version,
+   * the bump reason, the included PRs, and anything that would make the release
+   * fail or needs attention.
+   * @param prNumber - The release PR number
+   */
+  async updateReadinessCheck(prNumber: number): Promise<void> {
     try {
-      // Assuming you have an OpenAI integration set up
-      const openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
+      const { data: pr } = await this.context.octokit.pulls.get({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        pull_number: prNumber,
       });
 
-      const prompt = `
-Please summarize the following release notes into a concise, bullet-point format.
-Organize the summary into two sections:
-1. "## New Features" - new functionality and enhancements
-2. "## Bugs / Improvements" - bug fixes and performance improvements
-
-For each section, provide brief bullet points (starting with "-") that clearly describe each change.
-If there are no items for a section, include the section heading with no bullets.
-Be concise and focus on the most important changes.
+      // Configuration errors fail the check, instead of failing the release
+      const configErrors = this.getConfigErrors();
+      if (configErrors.length > 0) {
+        await this.context.octokit.checks.create({
+          owner: this.context.repo().owner,
+          repo: this.context.repo().repo,
+          name: 'AutoRelease readiness',
+          head_sha: pr.head.sha,
+          status: 'completed',
+          conclusion: 'failure',
+          output: buildConfigErrorReport(configErrors),
+        });
+        this.logger.warn(
+          `Release readiness for PR #${prNumber}: invalid configuration`
+        );
+        return;
+      }
 
-RELEASE NOTES:
-${prContent}
-`;
+      const body = pr.body || '';
+      const ledger = readLedger(body, this.categories);
+      const versions =
+        this.packages.length > 0
+          ? await this.getPackageReadiness(ledger)
+          : await this.getReleaseReadiness(pr.title, body, pr.labels);
+
+      const report = buildReadinessReport({
+        ...versions,
+        ledger,
+        aiEnabled: this.config.ai?.enabled ?? false,
+        blockers: await this.getReleaseBlockers(),
+      });
 
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4-turbo', // or whatever model you prefer
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a technical release notes assistant that creates concise summaries.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.5,
-        max_tokens: 1000,
+      await this.context.octokit.checks.create({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        name: 'AutoRelease readiness',
+        head_sha: pr.head.sha,
+        status: 'completed',
+        conclusion: report.conclusion,
+        output: { title: report.title, summary: report.summary },
       });
 
-      // Extract the content from the AI response
-      const summary = response.choices[0].message.content?.trim();
-      if (!summary) {
-        throw new Error('No summary generated by AI');
-      }
-      return summary;
+      this.logger.info(
+        `Release readiness for PR #${prNumber}: ${report.conclusion} (${report.title})`
+      );
     } catch (error) {
-      console.error('Error generating AI summary:', error);
-      // Fallback to original content with basic formatting if AI fails
-      return ['## New Features', '', '## Bugs / Improvements', ''].join('\n');
+      this.logger.error(
+        `Failed to update release readiness check for PR #${prNumber}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Lists the problems in the configuration that would make releases fail or
+   * pick the wrong version.
+   * @returns The error messages
+   */
+  getConfigErrors(): string[] {
+    const errors: string[] = [];
+    try {
+      this.getTagPattern();
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+    return errors;
+  }
+
+  /**
+   * Resolves the current and next version of the release PR for the readiness check.
+   * @param title - The release PR title
+   * @param body - The release PR body
+   * @param labels - The release PR labels
+   * @returns The version details of the readiness check input
+   */
+  async getReleaseReadiness(
+    title: string,
+    body: string,
+    labels: { name: string }[]
+  ): Promise<
+    Pick<
+      ReadinessInput,
+      | 'currentVersion'
+      | 'nextVersion'
+      | 'versionSource'
+      | 'titleParsed'
+      | 'tagExists'
+    >
+  > {
+    const prefix = this.config.release?.prefix ?? 'v';
+    const currentVersion = await this.getCurrentVersion();
+    const resolved = this.resolveReleaseVersion(
+      { title, body, labels: labels.map((label) => label.name) },
+      currentVersion
+    );
+    const nextVersion = resolved
+      ? `${prefix}${formatVersion(resolved.parsedVersion)}`
+      : null;
+
+    return {
+      currentVersion: `${prefix}${currentVersion}`,
+      nextVersion,
+      versionSource: resolved?.source ?? null,
+      titleParsed: parseReleaseTitle(title) !== null,
+      tagExists: nextVersion ? await this.tagExists(nextVersion) : false,
+    };
+  }
+
+  /**
+   * Resolves the current and next tags of each changed package for the
+   * readiness check. The title is not used for package versions.
+   * @param ledger - The release ledger
+   * @returns The version details of the readiness check input
+   */
+  async getPackageReadiness(
+    ledger: ReleaseLedger
+  ): Promise<
+    Pick<
+      ReadinessInput,
+      | 'currentVersion'
+      | 'nextVersion'
+      | 'versionSource'
+      | 'titleParsed'
+      | 'tagExists'
+    >
+  > {
+    const releases = await this.planPackageReleases(ledger);
+    const tags = releases.map((release) =>
+      formatPackageTag(release.pkg, release.version)
+    );
+
+    let tagExists = false;
+    for (const tag of tags) {
+      tagExists = tagExists || (await this.tagExists(tag));
+    }
+
+    return {
+      currentVersion:
+        releases
+          .map((release) =>
+            formatPackageTag(release.pkg, release.currentVersion)
+          )
+          .join(', ') || 'none',
+      nextVersion: tags.length > 0 ? tags.join(', ') : null,
+      versionSource: 'changed packages',
+      titleParsed: true,
+      tagExists,
+    };
+  }
+
+  /**
+   * Checks whether a tag already exists in the repository.
+   * @param tag - The tag name
+   * @returns True if the tag exists
+   */
+  async tagExists(tag: string): Promise<boolean> {
+    try {
+      await this.context.octokit.git.getRef({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        ref: `tags/${tag}`,
+      });
+      return true;
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether a tag includes a commit, i.e. the tag points to the commit
+   * or to one of its descendants.
+   * @param tag - The tag name
+   * @param sha - The commit SHA
+   * @returns False if the tag does not exist or does not include the commit
+   */
+  async tagIncludesCommit(tag: string, sha: string): Promise<boolean> {
+    try {
+      const { data } =
+        await this.context.octokit.repos.compareCommitsWithBasehead({
+          owner: this.context.repo().owner,
+          repo: this.context.repo().repo,
+          basehead: `${sha}...${tag}`,
+          per_page: 1,
+        });
+      return data.status === 'ahead' || data.status === 'identical';
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the open PRs labelled with the configured release blocker label.
+   * @returns The blocking PRs
+   */
+  async getReleaseBlockers(): Promise<
+    { number: number; title: string; url: string }[]
+  > {
+    const label = this.config.release?.blockerLabel;
+    if (!label) {
+      return [];
+    }
+
+    const issues = await this.context.octokit.paginate(
+      this.context.octokit.issues.listForRepo,
+      {
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        state: 'open',
+        labels: label,
+        per_page: 100,
+      }
+    );
+
+    return issues
+      .filter((issue) => issue.pull_request)
+      .map((issue) => ({
+        number: issue.number,
+        title: issue.title,
+        url: issue.html_url,
+      }));
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                   HELPERS                                  */
+  /* -------------------------------------------------------------------------- */
+
+  /**
+   * Finds an existing PR from staging to release branch.
+   * Includes enhanced debugging and more flexible matching.
+   * @returns The found PR or undefined if none exists
+   */
+  async findStagingToReleasePR() {
+    const owner = this.context.repo().owner;
+    const repo = this.context.repo().repo;
+    const stagingBranch = this.config.branches?.staging ?? 'staging';
+    const releaseBranch = this.config.branches?.release ?? 'main';
+
+    this.logger.info(
+      `Looking for PRs from ${stagingBranch} to ${releaseBranch} in ${owner}/${repo}`
+    );
+
+    try {
+      // First, try with the fully qualified head reference
+      const { data: prs } = await this.context.octokit.pulls.list({
+        owner: owner,
+        repo: repo,
+        state: 'open',
+        head: `${owner}:${stagingBranch}`,
+        base: releaseBranch,
+      });
+
+      this.logger.info(`Found ${prs.length} PRs matching the criteria`);
+
+      if (prs.length === 0) {
+        // If no results, try without owner prefix (sometimes GitHub omits it)
+        const { data: simplePrs } = await this.context.octokit.pulls.list({
+          owner: owner,
+          repo: repo,
+          state: 'open',
+          head: stagingBranch,
+          base: releaseBranch,
+        });
+
+        this.logger.info(
+          `Retried with simplified branch name, found ${simplePrs.length} PRs`
+        );
+
+        if (simplePrs.length > 0) {
+          // Log all found PRs for debugging
+          for (const pr of simplePrs) {
+            this.logger.info(
+              `PR #${pr.number}: "${pr.title}" (Draft: ${pr.draft}, Head: ${pr.head.ref}, Base: ${pr.base.ref})`
+            );
+          }
+
+          // Try to find any PR, not just drafts
+          const targetPR =
+            simplePrs.find((pr) => pr.draft === true) || simplePrs[0];
+          this.logger.info(`Selected PR #${targetPR.number}`);
+          return targetPR;
+        }
+
+        return undefined;
+      }
+
+      // Log all found PRs for debugging
+      for (const pr of prs) {
+        this.logger.info(
+          `PR #${pr.number}: "${pr.title}" (Draft: ${pr.draft}, Head: ${pr.head.ref}, Base: ${pr.base.ref})`
+        );
+      }
+
+      // First try to find a draft PR, but if none exists, return any matching PR
+      const draftPR = prs.find((pr) => pr.draft === true);
+      if (draftPR) {
+        this.logger.info(`Found draft PR #${draftPR.number}`);
+        return draftPR;
+      } else if (prs.length > 0) {
+        this.logger.info(
+          `No draft PR found, using PR #${prs[0].number} instead`
+        );
+        return prs[0]; // Return the first matching PR even if it's not a draft
+      }
+
+      return undefined;
+    } catch (error) {
+      this.logger.error(`Error finding staging to release PR: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Gets the current version, either from a version file on the release branch
+   * or from the highest semantic version tag matching the configured prefix.
+   * Falls back to 0.0.0 if no matching tags are found.
+   * @param ref - The commit to read the version file at, defaults to the
+   * release branch
+   * @returns The current semantic version string (e.g., "1.2.3")
+   */
+  async getCurrentVersion(ref?: string): Promise<string> {
+    // An invalid tag pattern must not silently restart versions at 0.0.0
+    this.getTagPattern();
+
+    try {
+      if (this.config.release?.versionSource === 'file') {
+        const version = await this.getVersionFromFile(ref);
+        if (version) {
+          return version;
+        }
+      }
+
+      const version = await this.getLatestTagVersion();
+      if (version) {
+        return version;
+      }
+
+      // If no tags found, start with 0.0.0
+      this.logger.info('No matching tags found, starting with 0.0.0');
+      return '0.0.0';
+    } catch (error) {
+      this.logger.error('Error getting current version:', error);
+      return '0.0.0';
+    }
+  }
+
+  /**
+   * Pages through every tag in the repository and returns the highest semantic
+   * version among the tags matching the configured prefix, tag pattern and
+   * version line.
+   * @returns The highest version without prefix, or null if no tag matches
+   */
+  async getLatestTagVersion(): Promise<string | null> {
+    const prefix = this.config.release?.prefix ?? 'v';
+    const versionLine = this.config.release?.versionLine;
+    const tagPattern = this.getTagPattern();
+
+    const tags = await this.context.octokit.paginate(
+      this.context.octokit.repos.listTags,
+      {
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        per_page: 100,
+      }
+    );
+
+    const versions = tags
+      .filter((tag) => !tagPattern || tagPattern.test(tag.name))
+      .map((tag) => versionFromTag(tag.name, prefix))
+      .filter((version): version is string => version !== null)
+      .filter((version) => !versionLine || inVersionLine(version, versionLine));
+
+    this.logger.info(
+      `Found ${versions.length} version tags out of ${tags.length} tags`
+    );
+
+    const [latest] = sortVersions(versions, 'desc');
+    if (latest) {
+      this.logger.info(`Latest tag version: ${latest}`);
+    }
+    return latest ?? null;
+  }
+
+  /**
+   * Compiles the configured `release.tagPattern`.
+   * @returns The tag pattern, or null if none is configured
+   * @throws If the pattern is not a valid regular expression
+   */
+  getTagPattern(): RegExp | null {
+    const pattern = this.config.release?.tagPattern;
+    if (!pattern) {
+      return null;
+    }
+
+    try {
+      return new RegExp(pattern);
+    } catch (error) {
+      throw new Error(
+        `Invalid release.tagPattern "${pattern}": ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Reads the current version from the configured version file on the release branch.
+   * @param ref - The commit to read the file at, defaults to the release branch
+   * @returns The version from the file, or null if it is missing or invalid
+   */
+  async getVersionFromFile(
+    ref = this.config.branches?.release ?? 'main'
+  ): Promise<string | null> {
+    const path = this.config.release?.versionFile ?? 'package.json';
+
+    const content = await this.getFileContent(path, ref);
+    const version = content ? readVersionFromFile(path, content) : null;
+
+    if (!version) {
+      this.logger.warn(
+        `No valid version found in ${path} at ${ref}, falling back to tags`
+      );
+      return null;
+    }
+
+    this.logger.info(`Version from ${path}: ${version}`);
+    return version;
+  }
+
+  /**
+   * Records the merged feature PR or pushed commits in the release PR's ledger
+   * and re-renders the PR body from it. Re-processing a PR or commit replaces
+   * its entry instead of adding duplicate bullets.
+   * @param prNumber - The PR number to update
+   * @param aiSummary - The AI-generated summary of the merged changes
+   * @param entries - The ledger entries of the merged PR or pushed commits
+   */
+  async updatePRWithAISummary(
+    prNumber: number,
+    aiSummary: FeatureSummary,
+    entries: LedgerEntry[]
+  ): Promise<void> {
+    this.logger.info(`Updating PR #${prNumber} with AI summary`);
+    this.logger.debug(`AI summary: ${JSON.stringify(aiSummary)}`);
+
+    const { ledger, body } = await this.updateReleasePRLedger(
+      prNumber,
+      (current) => entries.reduce(upsertLedgerEntry, current),
+      aiSummary.summary
+    );
+
+    this.logger.info(
+      `Release PR #${prNumber} now includes ${ledger.entries.length} PRs`
+    );
+    this.logger.debug(`Updated PR body: ${body}`);
+
+    this.logger.info(`Updated PR #${prNumber} with AI summary`);
+  }
+
+  /**
+   * Builds the ledger entry of a merged PR or pushed commit from its summary. A
+   * category label on the PR places all of its bullets in that category, and a
+   * release tag overrides the summary's version bump.
+   * @param source - The details of the merged PR or pushed commit
+   * @param aiSummary - The summary of the changes
+   * @returns The ledger entry
+   */
+  async buildLedgerEntry(
+    source: ChangeDetails,
+    aiSummary: FeatureSummary
+  ): Promise<LedgerEntry> {
+    // A category label on the source PR places all of its bullets there
+    const labels = source.labels;
+    const labelCategory = this.categories.find((category) =>
+      category.labels?.some((label) => labels.includes(label))
+    );
+
+    const categories = labelCategory
+      ? [
+          {
+            name: labelCategory.title,
+            bullets: aiSummary.categories.flatMap((c) => c.bullets),
+          },
+        ]
+      : aiSummary.categories;
+
+    // Record any release tag on the source PR so it can override the AI bump,
+    // falling back to breaking changes, or the version type inferred from
+    // commits when AI is disabled
+    const releaseTag = detectReleaseTag(
+      { title: source.title, body: source.body, labels },
+      this.config.releaseTags
+    );
+    const labelTag = detectReleaseTag(
+      { title: '', body: '', labels },
+      this.config.releaseTags
+    );
+
+    const [bumpType, bumpReason]: [VersionType, BumpReason] = releaseTag
+      ? [releaseTag, labelTag === releaseTag ? 'label' : 'tag']
+      : aiSummary.breaking
+        ? ['MAJOR', 'breaking']
+        : [aiSummary.versionType, this.config.ai?.enabled ? 'ai' : 'commits'];
+
+    const reference =
+      source.pr !== undefined ? `PR #${source.pr}` : `Commit ${source.commit}`;
+
+    if (bumpReason !== 'ai') {
+      this.logger.info(`${reference} is tagged as ${bumpType} (${bumpReason})`);
+    }
+
+    // In a monorepo, the PR only contributes to the packages it touched
+    const packages =
+      this.packages.length > 0
+        ? matchPackages(source.files, this.packages)
+        : undefined;
+
+    if (packages) {
+      this.logger.info(
+        `${reference} touches packages: ${packages.join(', ') || 'none'}`
+      );
+    }
+
+    return {
+      pr: source.pr,
+      commit: source.commit,
+      title: source.title,
+      author: source.author,
+      ...(source.gitAuthor && { gitAuthor: true }),
+      url: source.url,
+      categories: categories.filter((c) => c.bullets.length > 0),
+      packages,
+      bumpType,
+      bumpReason,
+    };
+  }
+
+  /**
+   * Changes the release PR's ledger and re-renders the PR body from it. GitHub
+   * has no conditional updates, so the body is read again right before
+   * writing: if another update changed it in the meantime, the change is
+   * re-applied to the new body instead of overwriting it.
+   * @param prNumber - The release PR number
+   * @param change - Computes the new ledger from the current one
+   * @param summary - A one-line summary of the latest changes, defaults to the
+   * summary of the new ledger
+   * @returns The new ledger and PR body
+   * @throws If the body keeps changing concurrently
+   */
+  async updateReleasePRLedger(
+    prNumber: number,
+    change: (ledger: ReleaseLedger) => ReleaseLedger,
+    summary?: string
+  ): Promise<{ ledger: ReleaseLedger; body: string }> {
+    const getBody = async () => {
+      const { data: pr } = await this.context.octokit.pulls.get({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        pull_number: prNumber,
+      });
+      return pr.body || '';
+    };
+
+    let read = await getBody();
+    for (let attempt = 1; attempt <= MAX_LEDGER_UPDATE_ATTEMPTS; attempt++) {
+      const ledger = change(readLedger(read, this.categories));
+      const body = await this.renderReleasePRBody(
+        ledger,
+        summary ?? summarizeLedger(ledger, this.categories).summary
+      );
+
+      const current = await getBody();
+      if (current === read) {
+        await this.context.octokit.pulls.update({
+          owner: this.context.repo().owner,
+          repo: this.context.repo().repo,
+          pull_number: prNumber,
+          body,
+        });
+        return { ledger, body };
+      }
+
+      this.logger.info(
+        `Release PR #${prNumber} changed while updating it, re-applying the change`
+      );
+      read = current;
+    }
+
+    throw new Error(
+      `Release PR #${prNumber} kept changing, gave up after ${MAX_LEDGER_UPDATE_ATTEMPTS} attempts`
+    );
+  }
+
+  /**
+   * Runs a task while holding the lock of this repository's release flow, so
+   * concurrent handlers cannot create duplicate release PRs or overwrite each
+   * other's changes to the release PR. Tasks holding the lock must not take it
+   * again.
+   * @param task - The task to run
+   * @returns The task's result
+   */
+  public withReleasePRLock<T>(task: () => Promise<T>): Promise<T> {
+    const { owner, repo } = this.context.repo();
+    const stagingBranch = this.config.branches?.staging ?? 'staging';
+    const releaseBranch = this.config.branches?.release ?? 'main';
+
+    return withLock(`${owner}/${repo}:${stagingBranch}:${releaseBranch}`, task);
+  }
+
+  /**
+   * Renders the release PR body from the `pr.draftBody` template, with the
+   * ledger's entries as the features, and stores the ledger in a hidden comment
+   * so the next update can re-render the body from scratch.
+   * @param ledger - The PRs included in the release
+   * @param summary - A one-line summary of the latest changes
+   * @returns The release PR body
+   */
+  async renderReleasePRBody(
+    ledger: ReleaseLedger,
+    summary: string
+  ): Promise<string> {
+    const currentVersion = await this.getCurrentVersion();
+    const features =
+      this.packages.length > 0
+        ? renderPackageSections(
+            await this.planPackageReleases(ledger),
+            ledger,
+            this.categories
+          )
+        : renderLedger(ledger, this.categories);
+
+    // The title proposes the version, until then it follows from the entries
+    const bumpType =
+      ledger.proposed?.bumpType ??
+      summarizeLedger(ledger, this.categories).versionType;
+    const variables = await this.buildReleaseVariables({
+      version:
+        ledger.proposed?.version ?? this.nextVersion(currentVersion, bumpType),
+      previousVersion: currentVersion,
+      bumpType,
+      summary,
+      features,
+      body: features,
+    });
+
+    return `${renderTemplate(this.config.pr?.draftBody ?? '', variables)}
+
+${serializeLedger(ledger)}`;
+  }
+
+  /**
+   * Adds a comment to the PR with a summary of the merged changes.
+   * The comment includes the merged PR's or pushed commits' titles, references
+   * and authors, and the AI-generated summary. Skipped if the PR already has
+   * a summary comment for the same entries.
+   * @param prNumber - The PR number to comment on
+   * @param aiSummary - The AI-generated summary to include in the comment
+   * @param entries - The ledger entries of the merged PR or pushed commits
+   */
+  async addSummaryComment(
+    prNumber: number,
+    aiSummary: FeatureSummary,
+    entries: LedgerEntry[]
+  ): Promise<void> {
+    // Marks the comment so a retried job does not post the same summary again
+    const marker = `<!-- autorelease-summary: ${entries
+      .map(entryReference)
+      .join(',')} -->`;
+    const comments = await this.context.octokit.paginate(
+      this.context.octokit.issues.listComments,
+      {
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        issue_number: prNumber,
+        per_page: 100,
+      }
+    );
+    if (comments.some((comment) => comment.body?.includes(marker))) {
+      this.logger.info(`PR #${prNumber} already has this summary comment`);
+      return;
+    }
+
+    // Create comment title and body
+    const commentTitle = `### Merged: ${entries
+      .map(
+        (entry) =>
+          `"${entry.title}" (${entryReference(entry)}) by ${formatAuthor(entry)}`
+      )
+      .join(', ')}`;
+
+    // Format the comment body
+    const commentBody = `${marker}
+${commentTitle}
+
+${formatSections(aiSummary.categories, this.categories)}
+
+---
+_This summary was generated automatically ${this.config.ai?.enabled ? 'by AI' : 'from commit messages'}_`;
+
+    // Add comment to the PR
+    await this.context.octokit.issues.createComment({
+      owner: this.context.repo().owner,
+      repo: this.context.repo().repo,
+      issue_number: prNumber,
+      body: commentBody,
+    });
+
+    this.logger.info(`Added summary comment to PR #${prNumber}`);
+  }
+
+  /**
+   * Handles the logic when the staging branch is merged to the release branch.
+   * Creates a GitHub release with the appropriate version and release notes.
+   */
+  public async handleStagingMergedToRelease(): Promise<void> {
+    const payload = this.context.payload as PullRequestClosedEvent & {
+      action: 'closed';
+    };
+
+    const pr = payload.pull_request;
+
+    // Verify this is a merge from staging to release
+    if (!pr.merged) {
+      this.logger.info(
+        'PR was closed but not merged, skipping release creation'
+      );
+      return;
+    }
+
+    const headBranch = pr.head.ref;
+    const baseBranch = pr.base.ref;
+    const stagingBranch = this.config.branches?.staging ?? 'staging';
+    const releaseBranch = this.config.branches?.release ?? 'main';
+
+    if (headBranch !== stagingBranch || baseBranch !== releaseBranch) {
+      this.logger.info(
+        `PR #${pr.number} is not from ${stagingBranch} to ${releaseBranch}, skipping release creation`
+      );
+      return;
+    }
+
+    this.logger.info(`Handling staging merged to release: PR #${pr.number}`);
+
+    const releasePR: ReleasePR = {
+      number: pr.number,
+      title: pr.title,
+      body: pr.body || '',
+      labels: pr.labels.map((label) => label.name),
+      mergeCommitSha: pr.merge_commit_sha,
+    };
+
+    // In a monorepo, each changed package gets its own tag and release
+    if (this.packages.length > 0) {
+      await this.releasePackages(releasePR);
+      return;
+    }
+
+    // A refused release fails the same way every time, so it is reported
+    // instead of retried
+    const refusal = await this.releaseFromPR(releasePR);
+    if (refusal) {
+      await this.reportReleaseFailure(
+        releasePR,
+        `No release was created because ${refusal}.
+
+To create the release, comment \`/autorelease release <major|minor|patch|version>\` on this PR.`
+      );
+    }
+  }
+
+  /**
+   * Creates the release for a merged staging-to-release PR: commits the
+   * changelog and version files, then tags and publishes the GitHub release.
+   * @param pr - The merged release PR
+   * @param versionOverride - A version or bump type taking precedence over the PR
+   * @returns Why no release was created, e.g. the version could not be
+   * determined or is not above the current version, or null if it was created
+   * now or by an earlier attempt
+   */
+  async releaseFromPR(
+    pr: ReleasePR,
+    versionOverride?: string
+  ): Promise<string | null> {
+    const releaseBranch = this.config.branches?.release ?? 'main';
+
+    const prepared = await this.prepareRelease(pr, versionOverride);
+    if (!prepared) {
+      this.logger.warn(`Skipping release creation for PR #${pr.number}`);
+      return 'the version could not be determined. The PR title does not match "<MAJOR|MINOR|PATCH> Release: <version>: <summary>", the PR body has no version recorded by the bot, the PR has no `release:major`, `release:minor` or `release:patch` label, and it includes no PRs to compute the version bump from';
+    }
+
+    const { version, parsedVersion, currentVersion, variables } = prepared;
+
+    // A retry after the release was created finds its tag including the PR
+    if (
+      pr.mergeCommitSha &&
+      (await this.tagIncludesCommit(version, pr.mergeCommitSha))
+    ) {
+      this.logger.info(`${version} already includes PR #${pr.number}`);
+      return null;
+    }
+
+    // Check before committing anything, so a repeated release leaves no trace
+    if (await this.tagExists(version)) {
+      this.logger.warn(`Tag ${version} already exists, skipping the release`);
+      return `the tag ${version} already exists`;
+    }
+    if (compareVersions(parsedVersion, currentVersion) <= 0) {
+      this.logger.warn(`${version} is not above ${currentVersion}, skipping`);
+      return `${version} is not greater than the current version ${this.config.release?.prefix ?? 'v'}${currentVersion}`;
+    }
+
+    // Commit the changelog and version files before tagging so the tag includes them
+    try {
+      await this.commitReleaseFiles(
+        variables,
+        formatVersion(parsedVersion),
+        releaseBranch
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to commit release files for ${version}:`,
+        error
+      );
+    }
+
+    let releaseUrl = '';
+    let releaseComment = '';
+    try {
+      // Create a GitHub release
+      const { data: release } = await this.context.octokit.repos.createRelease({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        tag_name: version,
+        name: renderTemplate(
+          this.config.release?.nameTemplate ?? '{version}',
+          variables
+        ),
+        body: renderTemplate(
+          this.config.release?.bodyTemplate ?? '',
+          variables
+        ),
+        target_commitish: releaseBranch,
+        draft: this.config.release?.createDraft ?? false,
+        prerelease:
+          (this.config.release?.prerelease ?? false) ||
+          parsedVersion.prerelease.length > 0,
+      });
+
+      this.logger.info(`Created release ${version}: ${release.html_url}`);
+      releaseUrl = release.html_url;
+      releaseComment = release.draft
+        ? `📝 Draft release [${version}](${release.html_url}) has been created and is ready to be published.`
+        : `🎉 ${release.prerelease ? 'Prerelease' : 'Release'} [${version}](${release.html_url}) has been published!`;
+    } catch (error) {
+      this.logger.error(`Failed to create release ${version}:`, error);
+      throw error;
+    }
+
+    // The release exists now, so failing to comment must not retry the release
+    try {
+      await this.context.octokit.issues.createComment({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        issue_number: pr.number,
+        body: releaseComment,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to comment on release ${releaseUrl}:`, error);
+    }
+
+    await this.createReleaseCheck(pr, 'success', `Released ${version}`, '');
+    return null;
+  }
+
+  /**
+   * Reports on a merged release PR that the release failed, with a comment
+   * and a failing check explaining how to create the release manually.
+   * @param pr - The merged release PR
+   * @param explanation - Why the release failed and how to retry it
+   */
+  async reportReleaseFailure(
+    pr: ReleasePR,
+    explanation: string
+  ): Promise<void> {
+    await this.context.octokit.issues.createComment({
+      owner: this.context.repo().owner,
+      repo: this.context.repo().repo,
+      issue_number: pr.number,
+      body: `⚠️ ${explanation}`,
+    });
+
+    await this.createReleaseCheck(pr, 'failure', 'Release failed', explanation);
+  }
+
+  /**
+   * Creates a check run on the release PR's merge commit with the release result,
+   * replacing the result of any earlier attempt.
+   * @param pr - The merged release PR
+   * @param conclusion - The check conclusion
+   * @param title - The check title
+   * @param summary - The check summary in markdown
+   */
+  async createReleaseCheck(
+    pr: ReleasePR,
+    conclusion: 'success' | 'failure',
+    title: string,
+    summary: string
+  ): Promise<void> {
+    if (!pr.mergeCommitSha) {
+      return;
+    }
+
+    // Checks need the checks:write permission, which older installs may lack
+    try {
+      await this.context.octokit.checks.create({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        name: 'AutoRelease',
+        head_sha: pr.mergeCommitSha,
+        status: 'completed',
+        conclusion,
+        output: { title, summary },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to create release check:`, error);
+    }
+  }
+
+  /**
+   * Resolves the version and template variables for a release from the release
+   * PR, summarizing the PR body into release notes.
+   * @param pr - The release PR
+   * @param versionOverride - A version or bump type taking precedence over the PR
+   * @returns The prefixed version, the parsed version, the current version
+   * without prefix and the template variables, or null if no version could be
+   * determined
+   */
+  async prepareRelease(
+    pr: Pick<ReleasePR, 'title' | 'body' | 'labels' | 'mergeCommitSha'>,
+    versionOverride?: string
+  ): Promise<{
+    version: string;
+    parsedVersion: SemVer;
+    currentVersion: string;
+    variables: TemplateVariables;
+  } | null> {
+    // Read a version file at the merge commit, before an earlier attempt at
+    // the release may have bumped it
+    const currentVersion = await this.getCurrentVersion(
+      pr.mergeCommitSha ?? undefined
+    );
+
+    const resolved = this.resolveReleaseVersion(
+      pr,
+      currentVersion,
+      versionOverride
+    );
+    if (!resolved) {
+      return null;
+    }
+
+    const { parsedVersion, versionType, summary } = resolved;
+    const version = `${this.config.release?.prefix ?? 'v'}${formatVersion(parsedVersion)}`;
+
+    // Summarize the release PR body once, for both the release and changelog
+    const releaseContent = pr.body.replace(/<!-- .* -->/g, '');
+    const aiSummary = await this.generateAISummary(releaseContent);
+
+    const variables = await this.buildReleaseVariables({
+      version: formatVersion(parsedVersion),
+      previousVersion: currentVersion,
+      bumpType: versionType,
+      summary,
+      features: aiSummary,
+      body: pr.body,
+      compareHead: version,
+    });
+
+    return { version, parsedVersion, currentVersion, variables };
+  }
+
+  /**
+   * Determines the version to release, trying in order: the override, the PR
+   * title, the version recorded in the PR body, `release:<type>` labels, and
+   * the bump recorded for the included PRs applied to the current version.
+   * @param pr - The release PR
+   * @param currentVersion - The current version without prefix
+   * @param versionOverride - A version or bump type taking precedence over the PR
+   * @returns The version, bump type, summary and the source used, or null if
+   * none of the sources yield a version
+   */
+  resolveReleaseVersion(
+    pr: Pick<ReleasePR, 'title' | 'body' | 'labels'>,
+    currentVersion: string,
+    versionOverride?: string
+  ): {
+    parsedVersion: SemVer;
+    versionType: VersionType;
+    summary: string;
+    source: string;
+  } | null {
+    const ledger = readLedger(pr.body, this.categories);
+    const releaseTitle = parseReleaseTitle(pr.title);
+    const summary =
+      releaseTitle?.summary ?? summarizeLedger(ledger, this.categories).summary;
+
+    const fromVersion = (version: string, versionType?: VersionType) => {
+      const parsedVersion = parseVersion(version.replace(/^v?/, ''));
+      return parsedVersion
+        ? {
+            parsedVersion,
+            versionType:
+              versionType ??
+              (releaseTypeBetween(
+                currentVersion,
+                parsedVersion
+              ).toUpperCase() as VersionType),
+            summary,
+          }
+        : null;
+    };
+    const fromBump = (versionType: VersionType) =>
+      fromVersion(this.nextVersion(currentVersion, versionType), versionType);
+
+    const labelTypes = pr.labels
+      .map((label) => label.match(/^release:(major|minor|patch)$/i)?.[1])
+      .filter((type): type is string => !!type)
+      .map((type) => type.toUpperCase() as VersionType);
+
+    const sources: [string, () => ReturnType<typeof fromVersion>][] = [
+      [
+        'override',
+        () =>
+          !versionOverride
+            ? null
+            : /^(major|minor|patch)$/i.test(versionOverride)
+              ? fromBump(versionOverride.toUpperCase() as VersionType)
+              : fromVersion(versionOverride),
+      ],
+      [
+        'PR title',
+        () =>
+          releaseTitle &&
+          fromVersion(releaseTitle.version, releaseTitle.versionType),
+      ],
+      [
+        'recorded version',
+        () =>
+          ledger.proposed
+            ? fromVersion(ledger.proposed.version, ledger.proposed.bumpType)
+            : null,
+      ],
+      [
+        'release label',
+        () =>
+          labelTypes.length > 0
+            ? fromBump(highestVersionType(labelTypes) as VersionType)
+            : null,
+      ],
+      [
+        'included PRs',
+        () =>
+          ledger.entries.length > 0
+            ? fromBump(summarizeLedger(ledger, this.categories).versionType)
+            : null,
+      ],
+    ];
+
+    for (const [source, resolve] of sources) {
+      const resolved = resolve();
+      if (resolved) {
+        this.logger.info(
+          `Resolved release version ${formatVersion(resolved.parsedVersion)} from ${source}`
+        );
+        return { ...resolved, source };
+      }
+    }
+
+    this.logger.warn(`Cannot determine the release version for "${pr.title}"`);
+    return null;
+  }
+
+  /**
+   * Increments the current version, as a prerelease when prereleases are enabled.
+   * The bump is limited to stay within the configured version line.
+   * @param currentVersion - The current version without prefix
+   * @param versionType - The version bump
+   * @returns The new version without prefix
+   */
+  nextVersion(currentVersion: string, versionType: VersionType): string {
+    const versionLine = this.config.release?.versionLine;
+    const requested = versionType.toLowerCase() as ReleaseType;
+    const releaseType = versionLine
+      ? capReleaseType(requested, versionLine)
+      : requested;
+
+    if (releaseType !== requested) {
+      this.logger.warn(
+        `Limiting ${requested} release to ${releaseType} for version line ${versionLine}`
+      );
+    }
+
+    return incrementVersion(
+      currentVersion,
+      releaseType,
+      this.config.release?.prerelease
+        ? (this.config.release?.prereleaseIdentifier ?? 'rc')
+        : undefined
+    );
+  }
+
+  /**
+   * Builds the template variables for the release PR and the release.
+   * Contributors and the PR count are read from the attributions in the PR body.
+   * @param options - The release details; versions are without prefix
+   * @returns The template variables
+   */
+  async buildReleaseVariables(options: {
+    version: string;
+    previousVersion: string;
+    bumpType: VersionType;
+    summary: string;
+    features: string;
+    body: string;
+    compareHead?: string;
+  }): Promise<TemplateVariables> {
+    const prefix = this.config.release?.prefix ?? 'v';
+    const { owner, repo } = this.context.repo();
+    const { prNumbers, contributors } = extractAttributions(options.body);
+    const compareHead =
+      options.compareHead ?? this.config.branches?.staging ?? 'staging';
+    const previousTag = `${prefix}${options.previousVersion}`;
+
+    return buildTemplateVariables({
+      prefix,
+      version: options.version,
+      previousVersion: options.previousVersion,
+      bumpType: options.bumpType,
+      features: options.features,
+      summary: options.summary,
+      contributors,
+      prCount: prNumbers.length,
+      // The first release, or a version from a file, may have no tag to compare from
+      compareUrl: (await this.tagExists(previousTag))
+        ? `https://github.com/${owner}/${repo}/compare/${previousTag}...${compareHead}`
+        : '',
+    });
+  }
+
+  private async generateAISummary(prContent: string): Promise<string> {
+    // Fallback to empty sections if AI fails
+    const fallback = formatSections(
+      this.categories.map((category) => ({
+        name: category.title,
+        bullets: [],
+      })),
+      this.categories
+    );
+
+    try {
+      const prompt = `
+Please summarize the following release notes into concise bullet points.
+Organize the summary into these categories:
+${this.describeCategories()}
+
+Include every category, with an empty bullet list if there are no items for it.
+Be concise and focus on the most important changes.
+
+RELEASE NOTES:
+${prContent}
+`;
+
+      const response = await this.callLLMStructured<FeatureSummary>({
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You are a technical release notes assistant that creates concise summaries.',
+          },
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        output: featureSummaryOutput(this.categories.map((c) => c.title)),
+      });
+
+      // Without AI, release the PR body sections as they are
+      if (response === null) {
+        return formatSections(
+          parseSummary(prContent, this.categories).map((section) => ({
+            name: section.type,
+            bullets: section.bullets,
+          })),
+          this.categories
+        );
+      }
+
+      return formatSections(response.categories, this.categories);
+    } catch (error) {
+      this.logger.error('Error generating AI summary:', error);
+      return fallback;
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                              MONOREPO PACKAGES                             */
+  /* -------------------------------------------------------------------------- */
+
+  /**
+   * Gets the current version of every package from its tags.
+   * @returns The current version of each package by name, 0.0.0 if it has no tags
+   */
+  async getPackageVersions(): Promise<Map<string, string>> {
+    const versionLine = this.config.release?.versionLine;
+    const tags = await this.context.octokit.paginate(
+      this.context.octokit.repos.listTags,
+      {
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        per_page: 100,
+      }
+    );
+
+    const versions = new Map<string, string>();
+    for (const pkg of this.packages) {
+      const packageVersions = tags
+        .map((tag) => versionFromPackageTag(tag.name, pkg))
+        .filter((version): version is string => version !== null)
+        .filter(
+          (version) => !versionLine || inVersionLine(version, versionLine)
+        );
+
+      versions.set(
+        pkg.name,
+        sortVersions(packageVersions, 'desc')[0] ?? '0.0.0'
+      );
+    }
+
+    return versions;
+  }
+
+  /**
+   * Plans a release for every package touched by a PR in the ledger. Each
+   * package is bumped by the highest bump among its PRs, unless the bump was
+   * overridden with `/autorelease bump`.
+   * @param ledger - The release ledger
+   * @returns The planned releases, in configured package order
+   */
+  async planPackageReleases(ledger: ReleaseLedger): Promise<PackageRelease[]> {
+    const versions = await this.getPackageVersions();
+
+    return this.packages
+      .map((pkg) => ({ pkg, ledger: packageLedger(ledger, pkg.name) }))
+      .filter(({ ledger }) => ledger.entries.length > 0)
+      .map(({ pkg, ledger }) => {
+        const currentVersion = versions.get(pkg.name) ?? '0.0.0';
+        const bumpType =
+          ledger.bumpOverride ??
+          highestVersionType(ledger.entries.map((entry) => entry.bumpType)) ??
+          'PATCH';
+
+        return {
+          pkg,
+          currentVersion,
+          version: this.nextVersion(currentVersion, bumpType),
+          bumpType,
+          ledger,
+        };
+      });
+  }
+
+  /**
+   * Creates a tag and GitHub release for every package changed in a merged
+   * release PR, after committing the packages' changelogs and version files.
+   * Packages already released from the PR, i.e. whose current tag includes
+   * its merge commit, and packages whose tag already exists are skipped, so
+   * retrying the release does not release a package twice. Packages that fail
+   * to release are reported on the PR.
+   * @param pr - The merged release PR
+   * @returns False if any package failed to release
+   */
+  async releasePackages(pr: ReleasePR): Promise<boolean> {
+    const releaseBranch = this.config.branches?.release ?? 'main';
+    const ledger = readLedger(pr.body, this.categories);
+    const releases = await this.planPackageReleases(ledger);
+
+    if (releases.length === 0) {
+      this.logger.info(`No packages changed in PR #${pr.number}, skipping`);
+      return true;
+    }
+
+    const { owner, repo } = this.context.repo();
+    const plans: {
+      release: PackageRelease;
+      tag: string;
+      variables: TemplateVariables;
+    }[] = [];
+    for (const release of releases) {
+      // Versions are planned from the latest tags, so after an earlier attempt
+      // the package's latest tag is the one released from this PR
+      const previousTag = formatPackageTag(release.pkg, release.currentVersion);
+      if (
+        pr.mergeCommitSha &&
+        (await this.tagIncludesCommit(previousTag, pr.mergeCommitSha))
+      ) {
+        this.logger.info(
+          `${previousTag} already includes PR #${pr.number}, skipping the package`
+        );
+        continue;
+      }
+
+      const tag = formatPackageTag(release.pkg, release.version);
+      if (await this.tagExists(tag)) {
+        this.logger.info(`Tag ${tag} already exists, skipping the package`);
+        continue;
+      }
+
+      const variables = await this.buildReleaseVariables({
+        version: release.version,
+        previousVersion: release.currentVersion,
+        bumpType: release.bumpType,
+        summary: summarizeLedger(release.ledger, this.categories).summary,
+        features: renderLedger(release.ledger, this.categories, false),
+        body: renderLedger(release.ledger, this.categories),
+      });
+
+      plans.push({
+        release,
+        tag,
+        variables: {
+          ...variables,
+          version: tag,
+          previousVersion: previousTag,
+          // The package's first release has no tag to compare from
+          compareUrl: (await this.tagExists(previousTag))
+            ? `https://github.com/${owner}/${repo}/compare/${previousTag}...${tag}`
+            : '',
+        },
+      });
+    }
+
+    if (plans.length === 0) {
+      this.logger.info(`Every package of PR #${pr.number} is already released`);
+      return true;
+    }
+
+    // Commit every package's changelog and version files before tagging
+    try {
+      const files: { path: string; content: string }[] = [];
+      for (const { release, variables } of plans) {
+        files.push(
+          ...(await this.renderVersionFiles(
+            release.version,
+            releaseBranch,
+            release.pkg.versionFiles ?? []
+          ))
+        );
+
+        if (release.pkg.changelog) {
+          const changelog = await this.renderChangelog(
+            variables,
+            releaseBranch,
+            release.pkg.changelog
+          );
+          if (changelog) {
+            files.push(changelog);
+          }
+        }
+      }
+
+      await this.commitAndBackMerge(
+        files,
+        releaseBranch,
+        plans.map(({ tag }) => tag).join(', ')
+      );
+    } catch (error) {
+      this.logger.error('Failed to commit package release files:', error);
+    }
+
+    // One failing package must not keep the others from being released
+    const published: string[] = [];
+    const failed: string[] = [];
+    for (const { release, tag, variables } of plans) {
+      try {
+        const { data: created } =
+          await this.context.octokit.repos.createRelease({
+            owner,
+            repo,
+            tag_name: tag,
+            name: renderTemplate(
+              this.config.release?.nameTemplate ?? '{version}',
+              variables
+            ),
+            body: renderTemplate(
+              this.config.release?.bodyTemplate ?? '',
+              variables
+            ),
+            target_commitish: releaseBranch,
+            draft: this.config.release?.createDraft ?? false,
+            prerelease:
+              (this.config.release?.prerelease ?? false) ||
+              (parseVersion(release.version)?.prerelease.length ?? 0) > 0,
+          });
+
+        this.logger.info(`Created release ${tag}: ${created.html_url}`);
+        published.push(`- [${tag}](${created.html_url})`);
+      } catch (error) {
+        this.logger.error(`Failed to create release ${tag}:`, error);
+        failed.push(`- ${tag}: ${(error as Error).message}`);
+      }
+    }
+
+    // The packages are released now, so failing to comment must not retry them
+    if (published.length > 0) {
+      try {
+        await this.context.octokit.issues.createComment({
+          owner,
+          repo,
+          issue_number: pr.number,
+          body: `🎉 Released ${published.length} package(s):\n\n${published.join('\n')}`,
+        });
+      } catch (error) {
+        this.logger.error('Failed to comment on the package releases:', error);
+      }
+    }
+
+    if (failed.length > 0) {
+      await this.reportReleaseFailure(
+        pr,
+        `Failed to release ${failed.length} package(s):\n\n${failed.join('\n')}\n\nTo retry, comment \`/autorelease release\` on this PR. Packages that were released are skipped.`
+      );
+      return false;
+    }
+
+    await this.createReleaseCheck(
+      pr,
+      'success',
+      `Released ${plans.map(({ tag }) => tag).join(', ')}`,
+      ''
+    );
+    return true;
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                          CHANGELOG & VERSION FILES                         */
+  /* -------------------------------------------------------------------------- */
+
+  /**
+   * Updates the changelog and all configured version files on the release branch
+   * in a single commit, and optionally back-merges the release branch into staging.
+   * @param variables - The release template variables
+   * @param fileVersion - The version to write into version files, without prefix
+   * @param branch - The release branch to commit to
+   */
+  async commitReleaseFiles(
+    variables: TemplateVariables,
+    fileVersion: string,
+    branch: string
+  ): Promise<void> {
+    const version = variables.version;
+    const files = await this.renderVersionFiles(fileVersion, branch);
+
+    const changelog = await this.renderChangelog(variables, branch);
+    if (changelog) {
+      files.push(changelog);
+    }
+
+    await this.commitAndBackMerge(files, branch, version);
+  }
+
+  /**
+   * Commits release files to the release branch, and optionally back-merges
+   * the release branch into staging.
+   * @param files - The files to commit
+   * @param branch - The release branch to commit to
+   * @param version - The released version(s), for the commit messages
+   */
+  async commitAndBackMerge(
+    files: { path: string; content: string }[],
+    branch: string,
+    version: string
+  ): Promise<void> {
+    if (files.length === 0) {
+      this.logger.info('No changelog or version files to update');
+      return;
+    }
+
+    const commit = await this.commitFiles(
+      branch,
+      files,
+      `chore(release): ${version}`
+    );
+
+    this.logger.info(
+      `Committed ${files.map((file) => file.path).join(', ')} to ${branch}: ${commit.sha}`
+    );
+
+    if (this.config.release?.backMergeToStaging) {
+      const stagingBranch = this.config.branches?.staging ?? 'staging';
+
+      await this.context.octokit.repos.merge({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        base: stagingBranch,
+        head: branch,
+        commit_message: `chore(release): merge ${version} back into ${stagingBranch}`,
+      });
+
+      this.logger.info(`Back-merged ${branch} into ${stagingBranch}`);
+    }
+  }
+
+  /**
+   * Renders a changelog entry for the release and prepends it to the changelog.
+   * Creates the changelog file if it does not exist yet.
+   * @param variables - The release template variables
+   * @param branch - The branch to read the current changelog from
+   * @param file - The changelog path, defaults to the configured changelog
+   * @returns The updated changelog file, or null if no changelog is configured
+   * or it already has an entry for the version
+   */
+  async renderChangelog(
+    variables: TemplateVariables,
+    branch: string,
+    file = this.config.changelog?.file
+  ): Promise<{ path: string; content: string } | null> {
+    const changelog = this.config.changelog;
+
+    if (!file) {
+      this.logger.info('No changelog file configured, skipping changelog');
+      return null;
+    }
+
+    const entry = renderTemplate(changelog?.entryFormat ?? '', {
+      ...variables,
+      features: variables.features.trim(),
+    });
+
+    const existing = (await this.getFileContent(file, branch)) ?? '';
+    // A retried release must not add the same entry twice
+    if (hasChangelogEntry(existing, variables.version)) {
+      this.logger.info(
+        `${file} already has an entry for ${variables.version}, skipping changelog`
+      );
+      return null;
+    }
+
+    const content = prependChangelogEntry(
+      existing,
+      changelog?.headerFormat ?? '',
+      entry
+    );
+
+    return { path: file, content };
+  }
+
+  /**
+   * Writes the new version into every configured version file.
+   * Files that are missing or have no recognizable version field are skipped.
+   * @param version - The new version without prefix
+   * @param branch - The branch to read the current files from
+   * @param entries - The version files, defaults to the configured version files
+   * @returns The updated version files
+   */
+  async renderVersionFiles(
+    version: string,
+    branch: string,
+    entries = this.config.versionFiles ?? []
+  ): Promise<{ path: string; content: string }[]> {
+    const files: { path: string; content: string }[] = [];
+
+    for (const entry of entries) {
+      const existing = await this.getFileContent(entry.path, branch);
+      if (existing === null) {
+        this.logger.warn(`Version file ${entry.path} not found on ${branch}`);
+        continue;
+      }
+
+      const content = writeVersionToFile(entry, existing, version);
+      if (content === null) {
+        this.logger.warn(`Could not find a version to update in ${entry.path}`);
+        continue;
+      }
+
+      if (content !== existing) {
+        files.push({ path: entry.path, content });
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Reads a text file from the repository.
+   * @param path - The path of the file in the repository
+   * @param ref - The branch, tag or commit to read from
+   * @returns The decoded file content, or null if the file does not exist
+   */
+  async getFileContent(path: string, ref: string): Promise<string | null> {
+    try {
+      const { data: file } = await this.context.octokit.repos.getContent({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        path,
+        ref,
+      });
+
+      if (!('content' in file)) {
+        throw new Error(`${path} is not a file`);
+      }
+
+      return Buffer.from(file.content, 'base64').toString('utf-8');
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
     }
   }
 
+  /**
+   * Commits a set of file changes to a branch in a single commit using the Git Data API.
+   * @param branch - The branch to commit to
+   * @param files - The files to create or overwrite, with their full content
+   * @param message - The commit message
+   * @returns Information about the created commit
+   */
+  async commitFiles(
+    branch: string,
+    files: { path: string; content: string }[],
+    message: string
+  ): Promise<{ sha: string; url: string }> {
+    const owner = this.context.repo().owner;
+    const repo = this.context.repo().repo;
+
+    // Get the latest commit on the branch
+    const reference = await this.context.octokit.git.getRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+    });
+
+    const latestCommit = await this.context.octokit.git.getCommit({
+      owner,
+      repo,
+      commit_sha: reference.data.object.sha,
+    });
+
+    // Create a tree with the changed files on top of the current tree
+    const tree = await this.context.octokit.git.createTree({
+      owner,
+      repo,
+      base_tree: latestCommit.data.tree.sha,
+      tree: files.map((file) => ({
+        path: file.path,
+        mode: '100644' as const,
+        type: 'blob' as const,
+        content: file.content,
+      })),
+    });
+
+    const newCommit = await this.context.octokit.git.createCommit({
+      owner,
+      repo,
+      message,
+      tree: tree.data.sha,
+      parents: [latestCommit.data.sha],
+    });
+
+    // Update the reference to point to the new commit
+    await this.context.octokit.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+      sha: newCommit.data.sha,
+    });
+
+    return {
+      sha: newCommit.data.sha,
+      url: `https://github.com/${owner}/${repo}/commit/${newCommit.data.sha}`,
+    };
+  }
+
   /**
    * Creates an empty commit on the specified branch.
    * Useful for triggering CI/CD pipelines or marking release events.
@@ -0,0 +1,213 @@
+import { Context } from 'probot';
+import { matchReleaseFlows } from '../utils/flows';
+import { readLedger } from '../utils/ledger';
+import { isReleaseDue } from '../utils/schedule';
+import { PRService } from './prService';
+
+// Check conclusions that do not block a scheduled release
+const PASSING_CONCLUSIONS = ['success', 'neutral', 'skipped'];
+
+// GitHub computes mergeability in the background after a PR is first read
+const MERGEABLE_POLL_ATTEMPTS = 3;
+const MERGEABLE_POLL_DELAY_MS = 2000;
+
+// Due releases whose mergeability was still unknown, retried on the next run
+// instead of waiting for the next window, keyed by "owner/repo#number"
+const retryReleases = new Map<string, string>();
+
+export class ScheduleService extends PRService {
+  constructor(context: Context) {
+    super(context);
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                          HANDLE SCHEDULED RELEASES                         */
+  /* -------------------------------------------------------------------------- */
+
+  /**
+   * Merges every release PR whose release is due under the repository's
+   * schedule, if it is mergeable and its checks are green. Merging the release
+   * PR creates the release as if a human had merged it.
+   * @param since - The time of the last scheduler run
+   * @param now - The current time
+   */
+  public async handleScheduledRelease(since: Date, now: Date): Promise<void> {
+    const schedule = this.config.schedule;
+    if (!schedule?.at?.length && !schedule?.minPendingPRs) {
+      return;
+    }
+
+    const prs = await this.context.octokit.paginate(
+      this.context.octokit.pulls.list,
+      {
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        state: 'open',
+        per_page: 100,
+      }
+    );
+
+    const config = this.config;
+    const { owner, repo } = this.context.repo();
+    for (const pr of prs) {
+      const [flow] = matchReleaseFlows(config, pr.base.ref, pr.head.ref);
+      if (!flow) {
+        continue;
+      }
+
+      const flowService = new ScheduleService(this.context);
+      flowService.useFlow(flow, config);
+
+      const key = `${owner}/${repo}#${pr.number}`;
+      const ledger = readLedger(pr.body || '', flowService.categories);
+      const reason =
+        isReleaseDue(schedule, ledger.entries.length, since, now) ??
+        retryReleases.get(key);
+      if (!reason) {
+        continue;
+      }
+
+      flowService.logger.info(
+        `Release PR #${pr.number} is due because ${reason}`
+      );
+      const merged = await flowService.mergeReleasePR(pr.number, reason);
+      if (merged === null) {
+        retryReleases.set(key, reason);
+      } else {
+        retryReleases.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Marks the release PR ready for review and merges it, unless it has
+   * conflicts, failing checks or open release blockers.
+   * @param prNumber - The release PR
+   * @param reason - Why the release is due, for the PR comment
+   * @returns True if the PR was merged, false if it is blocked, or null if
+   * GitHub has not computed whether it is mergeable yet
+   */
+  async mergeReleasePR(
+    prNumber: number,
+    reason: string
+  ): Promise<boolean | null> {
+    const getPR = () =>
+      this.context.octokit.pulls.get({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        pull_number: prNumber,
+      });
+
+    let { data: pr } = await getPR();
+    for (
+      let attempt = 1;
+      pr.mergeable === null && attempt <= MERGEABLE_POLL_ATTEMPTS;
+      attempt++
+    ) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, MERGEABLE_POLL_DELAY_MS)
+      );
+      ({ data: pr } = await getPR());
+    }
+
+    if (pr.mergeable === null) {
+      this.logger.info(
+        `GitHub has not computed whether release PR #${prNumber} is mergeable yet, retrying on the next run`
+      );
+      return null;
+    }
+
+    const blocker = await this.getMergeBlocker(pr);
+    if (blocker) {
+      this.logger.info(`Not merging release PR #${prNumber}: ${blocker}`);
+      return false;
+    }
+
+    // Draft PRs can only be marked ready through the GraphQL API
+    if (pr.draft) {
+      await this.context.octokit.graphql(
+        `mutation($id: ID!) {
+          markPullRequestReadyForReview(input: { pullRequestId: $id }) {
+            clientMutationId
+          }
+        }`,
+        { id: pr.node_id }
+      );
+    }
+
+    await this.context.octokit.pulls.merge({
+      owner: this.context.repo().owner,
+      repo: this.context.repo().repo,
+      pull_number: prNumber,
+      sha: pr.head.sha,
+      merge_method: this.config.schedule?.mergeMethod ?? 'merge',
+    });
+
+    await this.context.octokit.issues.createComment({
+      owner: this.context.repo().owner,
+      repo: this.context.repo().repo,
+      issue_number: prNumber,
+      body: `🕒 Merged automatically because ${reason}.`,
+    });
+
+    this.logger.info(`Merged release PR #${prNumber} on schedule`);
+    return true;
+  }
+
+  /**
+   * Explains why the release PR cannot be merged automatically: merge
+   * conflicts, open release blockers, or checks and commit statuses that are
+   * pending or failing.
+   * @param pr - The release PR
+   * @returns The reason, or null if the PR can be merged
+   */
+  async getMergeBlocker(pr: {
+    mergeable: boolean | null;
+    head: { sha: string };
+  }): Promise<string | null> {
+    if (pr.mergeable === null) {
+      return 'GitHub has not computed whether it is mergeable yet';
+    }
+    if (!pr.mergeable) {
+      return 'it has merge conflicts';
+    }
+
+    // The readiness check only warns about blockers, so check them directly
+    const blockers = await this.getReleaseBlockers();
+    if (blockers.length > 0) {
+      return `release blockers are open: ${blockers.map((blocker) => `#${blocker.number}`).join(', ')}`;
+    }
+
+    const checkRuns = await this.context.octokit.paginate(
+      this.context.octokit.checks.listForRef,
+      {
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        ref: pr.head.sha,
+        per_page: 100,
+      }
+    );
+
+    const failing = checkRuns.filter(
+      (run) =>
+        run.status !== 'completed' ||
+        !PASSING_CONCLUSIONS.includes(run.conclusion ?? '')
+    );
+    if (failing.length > 0) {
+      return `checks are pending or failing: ${failing.map((run) => run.name).join(', ')}`;
+    }
+
+    const { data: status } =
+      await this.context.octokit.repos.getCombinedStatusForRef({
+        owner: this.context.repo().owner,
+        repo: this.context.repo().repo,
+        ref: pr.head.sha,
+      });
+
+    if (status.total_count > 0 && status.state !== 'success') {
+      return `commit statuses are ${status.state}`;
+    }
+
+    return null;
+  }
+}
@@ -1,19 +1,39 @@
 import axios from 'axios';
 import { config } from 'dotenv';
 import { Probot, Server } from 'probot';
-import { probotHandler } from './events';
+import { registerAdminRoutes } from './admin';
+import { probotHandler, queueHandler } from './events';
+import { JobQueue, createJobStore, resolveJobStoreName } from './queue';
+import { startScheduler } from './scheduler';
 import { logger } from './utils/logger';
 
 config();
 
 async function startServer() {
+  const App = Probot.defaults({
+    appId: process.env.APP_ID,
+    privateKey: process.env.PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    secret: process.env.WEBHOOK_SECRET,
+  });
+
+  // Worker, handling the webhook events taken from the queue
+  const worker = new App();
+  await worker.load(probotHandler);
+
+  const queue = new JobQueue(
+    createJobStore(resolveJobStoreName()),
+    (job) =>
+      worker.receive({
+        id: job.id,
+        name: job.name,
+        payload: job.payload,
+      } as Parameters<Probot['receive']>[0]),
+    { maxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '5') }
+  );
+
   // Server
   const server = new Server({
-    Probot: Probot.defaults({
-      appId: process.env.APP_ID,
-      privateKey: process.env.PRIVATE_KEY?.replace(/\\n/g, '\n'),
-      secret: process.env.WEBHOOK_SECRET,
-    }),
+    Probot: App,
     port: parseInt(process.env.PORT || '8888'),
     webhookProxy: process.env.WEBHOOK_PROXY_URL,
   });
@@ -23,7 +43,15 @@ async function startServer() {
     res.send({ message: 'Service is online' });
   });
 
-  await server.load(probotHandler);
+  // Authenticated admin routes, e.g. to rebuild release PRs
+  registerAdminRoutes(server, queue);
+
+  // Webhooks are only queued when received, and processed by the worker
+  await server.load(queueHandler(queue));
+  queue.start();
+
+  // Merge release PRs on the schedules configured in each repository
+  startScheduler(server.probotApp);
 
   server.start().then(() => {
     logger.info('Server is running on port 8888');
@@ -0,0 +1,97 @@
+import axios from 'axios';
+import {
+  ChatMessage,
+  CompletionOptions,
+  LLMProvider,
+  StructuredOutput,
+} from '../utils/types';
+
+/**
+ * LLM provider for the Anthropic Messages API.
+ */
+export class AnthropicProvider implements LLMProvider {
+  public readonly name = 'anthropic' as const;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseURL = 'https://api.anthropic.com'
+  ) {}
+
+  async complete(
+    messages: ChatMessage[],
+    options: CompletionOptions
+  ): Promise<string> {
+    const data = await this.createMessage(messages, options);
+
+    const content = (data.content ?? [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+
+    if (!content) {
+      throw new Error('No response from anthropic');
+    }
+
+    return content;
+  }
+
+  async completeStructured(
+    messages: ChatMessage[],
+    output: StructuredOutput,
+    options: CompletionOptions
+  ): Promise<unknown> {
+    // Force a tool call so the input follows the output schema
+    const data = await this.createMessage(messages, options, {
+      tools: [
+        {
+          name: output.name,
+          description: output.description,
+          input_schema: output.schema,
+        },
+      ],
+      tool_choice: { type: 'tool', name: output.name },
+    });
+
+    const toolUse = (data.content ?? []).find(
+      (block: { type: string }) => block.type === 'tool_use'
+    );
+    if (!toolUse) {
+      throw new Error('No response from anthropic');
+    }
+
+    return toolUse.input;
+  }
+
+  private async createMessage(
+    messages: ChatMessage[],
+    options: CompletionOptions,
+    extra: Record<string, unknown> = {}
+  ) {
+    // Anthropic takes system prompts as a separate parameter
+    const system = messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const { data } = await axios.post(
+      `${this.baseURL.replace(/\/$/, '')}/v1/messages`,
+      {
+        model: options.model,
+        system: system || undefined,
+        messages: messages.filter((message) => message.role !== 'system'),
+        temperature: options.temperature,
+        max_tokens: options.max_tokens,
+        ...extra,
+      },
+      {
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01',
+          'content-type': 'application/json',
+        },
+      }
+    );
+
+    return data;
+  }
+}
@@ -0,0 +1,77 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { LLMProvider, LLMProviderName } from '../utils/types';
+import { AnthropicProvider } from './anthropicProvider';
+import { OpenAIProvider } from './openaiProvider';
+
+/**
+ * Default model per provider, used when neither `ai.model` nor
+ * `ai.openai.model` applies to the selected provider.
+ */
+export const DEFAULT_MODELS: Partial<Record<LLMProviderName, string>> = {
+  anthropic: 'claude-3-5-haiku-latest',
+};
+
+/**
+ * Resolves the provider to use: the `LLM_PROVIDER` environment variable pins
+ * the provider for every repository, so diffs are only sent where the operator
+ * chose. Without it, the repository config may pick one, defaulting to OpenAI.
+ * Empty variables, as copied from `.env.example`, count as unset.
+ * @param configured - The provider from `RepoConfig.ai.provider`
+ * @returns The provider name
+ */
+export function resolveProviderName(
+  configured?: LLMProviderName
+): LLMProviderName {
+  return (
+    (process.env.LLM_PROVIDER as LLMProviderName) || configured || 'openai'
+  );
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} environment variable is not set`);
+  }
+  return value;
+}
+
+/**
+ * Creates an LLM provider. Endpoints and credentials are only ever read from
+ * environment variables, so a repository config cannot redirect requests.
+ * @param name - The provider to create
+ * @returns The LLM provider
+ */
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'azure':
+      return new OpenAIProvider(
+        name,
+        new AzureOpenAI({
+          apiKey: requireEnv('AZURE_OPENAI_API_KEY'),
+          endpoint: requireEnv('AZURE_OPENAI_ENDPOINT'),
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+        })
+      );
+    case 'anthropic':
+      return new AnthropicProvider(
+        requireEnv('ANTHROPIC_API_KEY'),
+        process.env.ANTHROPIC_BASE_URL || undefined
+      );
+    case 'openai-compatible':
+      return new OpenAIProvider(
+        name,
+        new OpenAI({
+          baseURL: requireEnv('LLM_BASE_URL'),
+          // Local servers such as Ollama accept any key
+          apiKey: process.env.LLM_API_KEY || 'not-needed',
+        })
+      );
+    case 'openai':
+      return new OpenAIProvider(
+        name,
+        new OpenAI({ apiKey: requireEnv('OPENAI_API_KEY') })
+      );
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
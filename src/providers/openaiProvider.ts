@@ -0,0 +1,73 @@
+import OpenAI from 'openai';
+import {
+  ChatMessage,
+  CompletionOptions,
+  LLMProvider,
+  LLMProviderName,
+  StructuredOutput,
+} from '../utils/types';
+
+/**
+ * LLM provider for any API speaking the OpenAI chat completions protocol:
+ * OpenAI itself, Azure OpenAI and OpenAI-compatible servers such as Ollama or vLLM.
+ */
+export class OpenAIProvider implements LLMProvider {
+  constructor(
+    public readonly name: LLMProviderName,
+    private readonly client: OpenAI
+  ) {}
+
+  async complete(
+    messages: ChatMessage[],
+    options: CompletionOptions
+  ): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.max_tokens,
+    });
+
+    const content = response.choices[0]?.message.content;
+    if (!content) {
+      throw new Error(`No response from ${this.name}`);
+    }
+
+    return content;
+  }
+
+  async completeStructured(
+    messages: ChatMessage[],
+    output: StructuredOutput,
+    options: CompletionOptions
+  ): Promise<unknown> {
+    // Force a function call so the arguments follow the output schema
+    const response = await this.client.chat.completions.create({
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.max_tokens,
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: output.name,
+            description: output.description,
+            parameters: output.schema as unknown as Record<string, unknown>,
+          },
+        },
+      ],
+      tool_choice: { type: 'function', function: { name: output.name } },
+    });
+
+    const message = response.choices[0]?.message;
+    // Some OpenAI-compatible servers answer with plain JSON content instead
+    const json =
+      message?.tool_calls?.[0]?.function.arguments ?? message?.content;
+    if (!json) {
+      throw new Error(`No response from ${this.name}`);
+    }
+
+    return JSON.parse(json);
+  }
+}
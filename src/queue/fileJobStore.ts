@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Job, JobStatus, JobStore } from '../utils/types';
+
+/**
+ * Job store that persists jobs to a JSON file, so queued and failed jobs
+ * survive restarts. The file is rewritten atomically on every change, and
+ * changes are applied one at a time.
+ */
+export class FileJobStore implements JobStore {
+  public readonly name = 'file' as const;
+
+  private jobs?: Map<string, Job>;
+  // Serializes reads and writes of the file
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  async add(job: Job): Promise<void> {
+    await this.change((jobs) => {
+      if (jobs.has(job.id)) {
+        return false;
+      }
+      jobs.set(job.id, { ...job });
+      return true;
+    });
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = (await this.load()).get(id);
+    return job ? { ...job } : null;
+  }
+
+  async list(status?: JobStatus): Promise<Job[]> {
+    return Array.from((await this.load()).values())
+      .filter((job) => !status || job.status === status)
+      .map((job) => ({ ...job }));
+  }
+
+  async update(job: Job): Promise<void> {
+    await this.change((jobs) => {
+      if (!jobs.has(job.id)) {
+        return false;
+      }
+      jobs.set(job.id, { ...job });
+      return true;
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.change((jobs) => jobs.delete(id));
+  }
+
+  /**
+   * Reads the jobs from the file on first use. A missing file is an empty queue.
+   */
+  private load(): Promise<Map<string, Job>> {
+    return this.serialize(async () => {
+      if (!this.jobs) {
+        try {
+          const content = await fs.readFile(this.file, 'utf-8');
+          const jobs: Job[] = JSON.parse(content);
+          this.jobs = new Map(jobs.map((job) => [job.id, job]));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+          }
+          this.jobs = new Map();
+        }
+      }
+      return this.jobs;
+    });
+  }
+
+  /**
+   * Applies a change to the jobs and writes them back to the file if the
+   * change reports that it modified them.
+   */
+  private async change(
+    apply: (jobs: Map<string, Job>) => boolean
+  ): Promise<void> {
+    const jobs = await this.load();
+
+    await this.serialize(async () => {
+      if (!apply(jobs)) {
+        return;
+      }
+
+      // Write to a temporary file first, so a crash never leaves a partial file
+      const temporary = `${this.file}.tmp`;
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.writeFile(
+        temporary,
+        JSON.stringify(Array.from(jobs.values()), null, 2)
+      );
+      await fs.rename(temporary, this.file);
+    });
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,30 @@
+import { JobStore, JobStoreName } from '../utils/types';
+import { FileJobStore } from './fileJobStore';
+import { MemoryJobStore } from './memoryJobStore';
+
+export { JobQueue } from './jobQueue';
+
+/**
+ * Resolves the job store to use from the `QUEUE_STORE` environment variable,
+ * which defaults to the file store.
+ * @returns The job store name
+ */
+export function resolveJobStoreName(): JobStoreName {
+  return (process.env.QUEUE_STORE as JobStoreName) || 'file';
+}
+
+/**
+ * Creates a job store.
+ * @param name - The job store to create
+ * @returns The job store
+ */
+export function createJobStore(name: JobStoreName): JobStore {
+  switch (name) {
+    case 'file':
+      return new FileJobStore(process.env.QUEUE_FILE || 'data/jobs.json');
+    case 'memory':
+      return new MemoryJobStore();
+    default:
+      throw new Error(`Unknown job store: ${name}`);
+  }
+}
@@ -0,0 +1,236 @@
+import { logger } from '../utils/logger';
+import { Job, JobStore } from '../utils/types';
+
+export interface JobQueueOptions {
+  // Attempts before a job is moved to the dead-letter list
+  maxAttempts?: number;
+  // Delay before the first retry, doubled on every further retry
+  retryDelayMs?: number;
+  // How often the queue looks for due jobs
+  pollIntervalMs?: number;
+  // Repositories processed at the same time
+  concurrency?: number;
+}
+
+/**
+ * Runs queued jobs with a handler. Jobs for the same repository run one at a
+ * time, in the order they were received, while different repositories run in
+ * parallel. Failed jobs are retried with exponential backoff, then moved to the
+ * dead-letter list, from which they can be replayed.
+ */
+export class JobQueue {
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly concurrency: number;
+
+  // Repositories with a job in progress
+  private readonly running = new Set<string>();
+  // Jobs that succeeded but could not be removed from the store yet, which
+  // must not run again
+  private readonly completed = new Set<string>();
+  // When failed jobs may run again, kept in memory in case the store cannot
+  // be updated, so a failing store does not re-run a job on every poll
+  private readonly retryAt = new Map<string, number>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private pollAgain = false;
+
+  constructor(
+    public readonly store: JobStore,
+    private readonly handler: (job: Job) => Promise<void>,
+    options: JobQueueOptions = {}
+  ) {
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelayMs = options.retryDelayMs ?? 10_000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1_000;
+    this.concurrency = options.concurrency ?? 4;
+  }
+
+  /**
+   * Starts processing jobs, including any left in the store by a previous run.
+   */
+  start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Queues a webhook event. Redelivered events with an ID that is still queued
+   * are ignored.
+   * @param event - The webhook delivery ID, event name and payload
+   */
+  async enqueue(event: {
+    id: string;
+    name: string;
+    payload: unknown;
+  }): Promise<void> {
+    const repository =
+      (event.payload as { repository?: { full_name?: string } }).repository
+        ?.full_name ?? '';
+    const now = Date.now();
+
+    await this.store.add({
+      ...event,
+      repository,
+      status: 'pending',
+      attempts: 0,
+      runAt: now,
+      createdAt: now,
+    });
+
+    this.poll();
+  }
+
+  /**
+   * Moves a failed job back into the queue, with a fresh set of attempts.
+   * @param id - The job ID
+   * @returns The replayed job, or null if no failed job has the ID
+   */
+  async replay(id: string): Promise<Job | null> {
+    const job = await this.store.get(id);
+    if (!job || job.status !== 'failed') {
+      return null;
+    }
+
+    const replayed: Job = {
+      ...job,
+      status: 'pending',
+      attempts: 0,
+      runAt: Date.now(),
+    };
+    await this.store.update(replayed);
+    this.retryAt.delete(id);
+    this.poll();
+
+    return replayed;
+  }
+
+  /**
+   * Starts due jobs. Polls never overlap: a poll requested while one is in
+   * progress runs right after it.
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      this.pollAgain = true;
+      return;
+    }
+
+    this.polling = true;
+    try {
+      do {
+        this.pollAgain = false;
+        await this.startDueJobs();
+      } while (this.pollAgain);
+    } catch (error) {
+      logger.error('Failed to poll the job queue:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Starts the next job of every idle repository whose job is due. Only the
+   * oldest pending job of a repository can run, so a job waiting for a retry
+   * holds back the later jobs of its repository.
+   */
+  private async startDueJobs(): Promise<void> {
+    const next = new Map<string, Job>();
+    for (const job of await this.store.list('pending')) {
+      if (!next.has(job.repository)) {
+        next.set(job.repository, job);
+      }
+    }
+
+    for (const listed of next.values()) {
+      if (this.running.size >= this.concurrency) {
+        return;
+      }
+      if (this.running.has(listed.repository)) {
+        continue;
+      }
+
+      if (this.completed.has(listed.id)) {
+        await this.store.remove(listed.id);
+        this.completed.delete(listed.id);
+        continue;
+      }
+
+      // The job may have finished since it was listed
+      const job = await this.store.get(listed.id);
+      if (
+        !job ||
+        job.status !== 'pending' ||
+        Math.max(job.runAt, this.retryAt.get(job.id) ?? 0) > Date.now()
+      ) {
+        continue;
+      }
+
+      this.running.add(job.repository);
+      this.run(job)
+        .catch((error) =>
+          logger.error(`Failed to update job ${job.id} in the store:`, error)
+        )
+        .finally(() => {
+          this.running.delete(job.repository);
+          this.poll();
+        });
+    }
+  }
+
+  /**
+   * Runs a job, removing it when it succeeds and scheduling a retry or moving
+   * it to the dead-letter list when it fails.
+   * @throws If the store cannot be updated
+   */
+  private async run(job: Job): Promise<void> {
+    try {
+      await this.handler(job);
+    } catch (error) {
+      const attempts = job.attempts + 1;
+      const lastError =
+        error instanceof Error ? error.stack || error.message : String(error);
+
+      if (attempts >= this.maxAttempts) {
+        this.retryAt.set(job.id, Infinity);
+        logger.error(
+          `Job ${job.id} (${job.name}) failed ${attempts} times, moving it to the dead-letter list:`,
+          error
+        );
+        await this.store.update({
+          ...job,
+          status: 'failed',
+          attempts,
+          lastError,
+        });
+        this.retryAt.delete(job.id);
+        return;
+      }
+
+      const delay = this.retryDelayMs * 2 ** (attempts - 1);
+      this.retryAt.set(job.id, Date.now() + delay);
+      logger.warn(
+        `Job ${job.id} (${job.name}) failed, retrying in ${delay / 1000}s: ${error instanceof Error ? error.message : error}`
+      );
+      await this.store.update({
+        ...job,
+        attempts,
+        runAt: Date.now() + delay,
+        lastError,
+      });
+      this.retryAt.delete(job.id);
+      return;
+    }
+
+    // Until the job is removed, later polls remove it instead of running it
+    this.completed.add(job.id);
+    await this.store.remove(job.id);
+    this.completed.delete(job.id);
+  }
+}
@@ -0,0 +1,38 @@
+import { Job, JobStatus, JobStore } from '../utils/types';
+
+/**
+ * Job store that keeps jobs in memory only, so queued jobs are lost on
+ * restart. Useful for development.
+ */
+export class MemoryJobStore implements JobStore {
+  public readonly name = 'memory' as const;
+
+  private readonly jobs = new Map<string, Job>();
+
+  async add(job: Job): Promise<void> {
+    if (!this.jobs.has(job.id)) {
+      this.jobs.set(job.id, { ...job });
+    }
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async list(status?: JobStatus): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => !status || job.status === status)
+      .map((job) => ({ ...job }));
+  }
+
+  async update(job: Job): Promise<void> {
+    if (this.jobs.has(job.id)) {
+      this.jobs.set(job.id, { ...job });
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+}
@@ -0,0 +1,82 @@
+import { Probot } from 'probot';
+import { ScheduleService } from './handlers/scheduleService';
+import { createRepositoryContext } from './utils/context';
+import { logger } from './utils/logger';
+
+// How often scheduled releases are checked
+const SCHEDULE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Checks every repository of every installation for a scheduled release that
+ * is due. Repositories are handled one at a time, and a failure in one does
+ * not stop the others.
+ * @param app - The Probot app
+ * @param since - The time of the last run
+ * @param now - The current time
+ */
+export async function runScheduledReleases(
+  app: Probot,
+  since: Date,
+  now: Date
+): Promise<void> {
+  const appOctokit = await app.auth();
+  const installations = await appOctokit.paginate(
+    appOctokit.apps.listInstallations,
+    { per_page: 100 }
+  );
+
+  for (const installation of installations) {
+    const octokit = await app.auth(installation.id);
+    const repositories = await octokit.paginate(
+      'GET /installation/repositories',
+      { per_page: 100 }
+    );
+
+    for (const repository of repositories) {
+      try {
+        const context = createRepositoryContext(
+          `schedule-${now.getTime()}`,
+          repository,
+          octokit,
+          app.log
+        );
+
+        const scheduleService = new ScheduleService(context);
+        await scheduleService.loadConfig();
+        await scheduleService.handleScheduledRelease(since, now);
+      } catch (error) {
+        logger.error(
+          `Scheduled release failed for ${repository.full_name}:`,
+          error
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Starts checking for scheduled releases on an interval. Runs never overlap:
+ * a run that is still in progress when the next one is due skips it.
+ * @param app - The Probot app
+ */
+export function startScheduler(app: Probot): void {
+  let lastRun = new Date();
+  let running = false;
+
+  setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    const now = new Date();
+    try {
+      await runScheduledReleases(app, lastRun, now);
+      lastRun = now;
+    } catch (error) {
+      logger.error('Failed to run scheduled releases:', error);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULE_INTERVAL_MS);
+}
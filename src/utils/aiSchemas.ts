@@ -0,0 +1,79 @@
+import { StructuredOutput } from './types';
+
+/**
+ * Builds the structured output schema for a feature or release summary.
+ * @param categories - The category names the model may use
+ * @returns The structured output definition
+ */
+export function featureSummaryOutput(categories: string[]): StructuredOutput {
+  return {
+    name: 'submit_summary',
+    description: 'Submit the categorized summary of the changes.',
+    schema: {
+      type: 'object',
+      properties: {
+        categories: {
+          type: 'array',
+          description:
+            'Every category with its bullet points. Use an empty bullet list for categories without changes.',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', enum: categories },
+              bullets: {
+                type: 'array',
+                description: 'Concise bullet points, without leading dashes.',
+                items: { type: 'string', minLength: 1 },
+              },
+            },
+            required: ['name', 'bullets'],
+            additionalProperties: false,
+          },
+        },
+        versionType: {
+          type: 'string',
+          enum: ['MAJOR', 'MINOR', 'PATCH'],
+          description:
+            'MAJOR for incompatible API changes, MINOR for backwards compatible functionality, PATCH for backwards compatible fixes.',
+        },
+        summary: {
+          type: 'string',
+          description: 'A one-line summary of at most 60 characters.',
+          minLength: 1,
+        },
+        breaking: {
+          type: 'boolean',
+          description: 'Whether the changes include a breaking change.',
+        },
+      },
+      required: ['categories', 'versionType', 'summary', 'breaking'],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Structured output schema for the version type and one-line summary of a release.
+ */
+export const VERSION_INFO_OUTPUT: StructuredOutput = {
+  name: 'submit_version_info',
+  description: 'Submit the version increment and summary of the release.',
+  schema: {
+    type: 'object',
+    properties: {
+      versionType: {
+        type: 'string',
+        enum: ['MAJOR', 'MINOR', 'PATCH'],
+        description:
+          'MAJOR for incompatible API changes, MINOR for backwards compatible functionality, PATCH for backwards compatible fixes.',
+      },
+      summary: {
+        type: 'string',
+        description: 'A one-line summary of at most 60 characters.',
+        minLength: 1,
+      },
+    },
+    required: ['versionType', 'summary'],
+    additionalProperties: false,
+  },
+};
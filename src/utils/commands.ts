@@ -0,0 +1,74 @@
+import { VersionType } from './types';
+
+export type ReleaseCommand =
+  | { name: 'bump'; versionType: VersionType }
+  | { name: 'regenerate' }
+  | { name: 'rebuild' }
+  | { name: 'exclude'; prNumber: number }
+  | { name: 'title'; summary: string }
+  | { name: 'preview' }
+  | { name: 'release'; version?: string };
+
+const COMMAND_REGEX = /^\/autorelease\b(.*)$/m;
+
+export const COMMAND_USAGE = `Available commands:
+- \`/autorelease bump major|minor|patch\` - override the version bump
+- \`/autorelease regenerate\` - re-render the release notes and title
+- \`/autorelease rebuild\` - re-summarize every PR between the release and staging branches
+- \`/autorelease exclude #123\` - remove a PR from the release
+- \`/autorelease title "..."\` - override the release summary in the title
+- \`/autorelease preview\` - preview the release notes
+- \`/autorelease release [major|minor|patch|version]\` - create the release for a merged release PR`;
+
+/**
+ * Parses an `/autorelease` slash command from a comment.
+ * @param comment - The comment body
+ * @returns The command, an error message if the command is invalid, or null if
+ * the comment contains no command
+ */
+export function parseReleaseCommand(
+  comment: string
+): ReleaseCommand | { error: string } | null {
+  const match = comment.match(COMMAND_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  const args = match[1].trim();
+  const [name = '', ...rest] = args.split(/\s+/);
+  const argument = rest.join(' ');
+
+  switch (name.toLowerCase()) {
+    case 'bump': {
+      const versionType = argument.toUpperCase();
+      if (!['MAJOR', 'MINOR', 'PATCH'].includes(versionType)) {
+        return { error: `Unknown version type "${argument}"` };
+      }
+      return { name: 'bump', versionType: versionType as VersionType };
+    }
+    case 'regenerate':
+      return { name: 'regenerate' };
+    case 'rebuild':
+      return { name: 'rebuild' };
+    case 'exclude': {
+      const prNumber = argument.match(/^#?(\d+)$/)?.[1];
+      if (!prNumber) {
+        return { error: `Expected a PR number like #123, got "${argument}"` };
+      }
+      return { name: 'exclude', prNumber: parseInt(prNumber, 10) };
+    }
+    case 'title': {
+      const summary = argument.replace(/^"(.*)"$/, '$1').trim();
+      if (!summary) {
+        return { error: 'Expected a title like "Add user authentication"' };
+      }
+      return { name: 'title', summary };
+    }
+    case 'preview':
+      return { name: 'preview' };
+    case 'release':
+      return { name: 'release', version: argument || undefined };
+    default:
+      return { error: `Unknown command "${name}"` };
+  }
+}
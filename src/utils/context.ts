@@ -0,0 +1,28 @@
+import { Context, ProbotOctokit } from 'probot';
+
+/**
+ * Builds a context for work that does not come from a webhook, such as
+ * scheduled releases and admin requests. The services only read the
+ * repository from the payload.
+ * @param id - An identifier for the run, in place of the webhook delivery ID
+ * @param repository - The repository, as returned by the REST API
+ * @param octokit - An Octokit instance authenticated as the installation
+ * @param log - The logger of the Probot app
+ * @returns The context
+ */
+export function createRepositoryContext(
+  id: string,
+  repository: { id: number; name: string; owner: { login: string } },
+  octokit: ProbotOctokit,
+  log: Context['log']
+): Context {
+  return new Context(
+    {
+      id,
+      name: 'repository',
+      payload: { repository },
+    } as unknown as ConstructorParameters<typeof Context>[0],
+    octokit,
+    log
+  );
+}
@@ -0,0 +1,118 @@
+import { highestVersionType } from './helpers';
+import { CategoryConfig, FeatureSummary, VersionType } from './types';
+
+export interface ConventionalCommit {
+  type: string;
+  scope?: string;
+  breaking: boolean;
+  description: string;
+}
+
+const HEADER_REGEX = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+const BREAKING_FOOTER_REGEX = /^BREAKING[ -]CHANGE:\s*(.+)$/m;
+
+// Commit types that imply a MINOR version bump
+const FEATURE_TYPES = ['feat'];
+
+/**
+ * Parses a commit message (or PR title) following the Conventional Commits spec.
+ * @param message - The full commit message
+ * @returns The parsed commit, or null if the header is not a conventional commit
+ */
+export function parseConventionalCommit(
+  message: string
+): ConventionalCommit | null {
+  const [header] = message.trim().split('\n');
+  const match = header.match(HEADER_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  const [, type, scope, bang, description] = match;
+
+  return {
+    type: type.toLowerCase(),
+    scope: scope || undefined,
+    breaking: !!bang || BREAKING_FOOTER_REGEX.test(message),
+    description: description.trim(),
+  };
+}
+
+/**
+ * Infers the version bump implied by a conventional commit.
+ * @param commit - The parsed commit
+ * @returns MAJOR for breaking changes, MINOR for features, PATCH otherwise
+ */
+export function versionTypeForCommit(commit: ConventionalCommit): VersionType {
+  if (commit.breaking) {
+    return 'MAJOR';
+  }
+  return FEATURE_TYPES.includes(commit.type) ? 'MINOR' : 'PATCH';
+}
+
+/**
+ * Builds a deterministic summary from Conventional Commit messages, using the
+ * same categories the AI summaries use. Commits are placed in the first category
+ * listing their type in `commitTypes`; breaking changes go to a category listing
+ * "breaking" if there is one.
+ * @param messages - The PR title followed by its commit messages
+ * @param categories - The configured categories, in order
+ * @returns The summary with the inferred version type
+ */
+export function summarizeConventionalCommits(
+  messages: string[],
+  categories: CategoryConfig[]
+): FeatureSummary {
+  const bullets = categories.map(() => new Set<string>());
+  const versionTypes: VersionType[] = [];
+
+  for (const message of messages) {
+    const commit = parseConventionalCommit(message);
+    if (!commit) {
+      continue;
+    }
+
+    versionTypes.push(versionTypeForCommit(commit));
+
+    const bullet = commit.scope
+      ? `**${commit.scope}:** ${commit.description}`
+      : commit.description;
+
+    const breakingIndex = commit.breaking
+      ? categories.findIndex((c) => c.commitTypes?.includes('breaking'))
+      : -1;
+    const index =
+      breakingIndex !== -1
+        ? breakingIndex
+        : categories.findIndex((c) => c.commitTypes?.includes(commit.type));
+
+    if (index !== -1) {
+      bullets[index].add(bullet);
+    }
+  }
+
+  const title =
+    parseConventionalCommit(messages[0] ?? '')?.description ??
+    (messages[0] ?? '').trim().split('\n')[0];
+
+  // Fall back to the PR title when no commit made it into the notes, placed in
+  // the category for fixes or else the last category
+  if (title && bullets.length > 0 && bullets.every((set) => set.size === 0)) {
+    const fixIndex = categories.findIndex((c) =>
+      c.commitTypes?.includes('fix')
+    );
+    bullets[fixIndex !== -1 ? fixIndex : bullets.length - 1].add(title);
+  }
+
+  const versionType = highestVersionType(versionTypes) ?? 'PATCH';
+
+  return {
+    categories: categories.map((category, index) => ({
+      name: category.title,
+      bullets: Array.from(bullets[index]),
+    })),
+    versionType,
+    summary: title,
+    breaking: versionType === 'MAJOR',
+  };
+}
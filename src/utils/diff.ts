@@ -0,0 +1,207 @@
+import { globToRegExp } from './helpers';
+
+// A changed file of a diff, with its hunks
+export interface FileDiff {
+  path: string;
+  // The path before a rename
+  previousPath?: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+  // Each hunk's lines, starting with its "@@" header
+  hunks: string[][];
+}
+
+export interface DiffOptions {
+  // Files left out of the diff sent to the model, as glob patterns
+  ignore: string[];
+  // Tokens each file may take up before its remaining hunks are cut
+  maxFileTokens: number;
+  // Tokens per chunk of the diff; larger diffs are summarized chunk by chunk
+  maxChunkTokens: number;
+  // Chunks summarized at most; files that do not fit are only listed
+  maxChunks: number;
+}
+
+export interface DiffAnalysis {
+  files: FileDiff[];
+  // Paths of the files matching an ignore pattern
+  ignored: string[];
+  // Paths of the files left out because the diff had too many chunks
+  omitted: string[];
+  // The diff of the remaining files, split to fit the token budget
+  chunks: string[];
+  // e.g. "3 files changed, 10 insertions(+), 2 deletions(-)"
+  summary: string;
+}
+
+// Rough number of characters per token, for budgeting without a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the number of tokens a text takes up in a prompt.
+ * @param text - The text
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Parses hunks from the lines of a file's patch. Changed lines that start with
+ * "++" or "--" are counted like any other changed line.
+ */
+function parseHunks(
+  lines: string[]
+): Pick<FileDiff, 'additions' | 'deletions' | 'hunks'> {
+  const hunks: string[][] = [];
+  let additions = 0;
+  let deletions = 0;
+
+  for (const line of lines) {
+    if (line.startsWith('@@')) {
+      hunks.push([line]);
+      continue;
+    }
+
+    const hunk = hunks[hunks.length - 1];
+    if (!hunk) {
+      continue;
+    }
+
+    hunk.push(line);
+    if (line.startsWith('+')) {
+      additions++;
+    } else if (line.startsWith('-')) {
+      deletions++;
+    }
+  }
+
+  return { additions, deletions, hunks };
+}
+
+/**
+ * Parses a single file's patch, as returned by GitHub for each file of a
+ * commit or pull request, which has no file headers.
+ * @param path - The file path
+ * @param patch - The patch, empty for binary or very large files
+ * @param previousPath - The path before a rename
+ * @returns The changed file
+ */
+export function parsePatch(
+  path: string,
+  patch: string,
+  previousPath?: string
+): FileDiff {
+  return {
+    path,
+    ...(previousPath && previousPath !== path && { previousPath }),
+    binary: patch === '',
+    ...parseHunks(patch.split('\n')),
+  };
+}
+
+/**
+ * Checks if a file matches one of the ignore patterns. Patterns without a `/`
+ * match the file name in any directory, like in `.gitignore`.
+ * @param path - The file path
+ * @param patterns - The glob patterns
+ * @returns Whether the file is ignored
+ */
+export function isIgnoredFile(path: string, patterns: string[]): boolean {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+
+  return patterns.some((pattern) =>
+    globToRegExp(pattern).test(pattern.includes('/') ? path : name)
+  );
+}
+
+/**
+ * Renders a file's diff, cutting the hunks that exceed the token budget.
+ */
+function renderFileDiff(file: FileDiff, maxTokens: number): string {
+  const header = `diff --git a/${file.previousPath ?? file.path} b/${file.path}`;
+  if (file.binary) {
+    return `${header}\nBinary file changed`;
+  }
+
+  const lines = [header];
+  let tokens = estimateTokens(header);
+  const totalLines = file.hunks.reduce((count, hunk) => count + hunk.length, 0);
+  let renderedLines = 0;
+
+  // Keep whole lines while they fit, so the model never sees half a line
+  for (const line of file.hunks.flat()) {
+    const lineTokens = estimateTokens(line) + 1;
+    if (tokens + lineTokens > maxTokens) {
+      break;
+    }
+    lines.push(line);
+    tokens += lineTokens;
+    renderedLines++;
+  }
+
+  if (renderedLines < totalLines) {
+    lines.push(`... ${totalLines - renderedLines} more lines not shown`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Prepares a diff for summarization: drops ignored files, cuts each file to
+ * its token budget and splits the rest into chunks that fit in one prompt.
+ * @param files - The changed files
+ * @param options - The ignore patterns and token budgets
+ * @returns The analysis, with statistics that count every changed file
+ */
+export function analyzeDiff(
+  files: FileDiff[],
+  options: DiffOptions
+): DiffAnalysis {
+  const ignored: string[] = [];
+  const omitted: string[] = [];
+  const chunks: string[] = [];
+  let chunk: string[] = [];
+  let chunkTokens = 0;
+
+  for (const file of files) {
+    if (isIgnoredFile(file.path, options.ignore)) {
+      ignored.push(file.path);
+      continue;
+    }
+
+    const rendered = renderFileDiff(file, options.maxFileTokens);
+    const tokens = estimateTokens(rendered);
+
+    // Start a new chunk once the file no longer fits in the current one
+    if (chunk.length > 0 && chunkTokens + tokens > options.maxChunkTokens) {
+      chunks.push(chunk.join('\n'));
+      chunk = [];
+      chunkTokens = 0;
+    }
+
+    if (chunks.length >= options.maxChunks) {
+      omitted.push(file.path);
+      continue;
+    }
+
+    chunk.push(rendered);
+    chunkTokens += tokens;
+  }
+
+  if (chunk.length > 0) {
+    chunks.push(chunk.join('\n'));
+  }
+
+  const additions = files.reduce((count, file) => count + file.additions, 0);
+  const deletions = files.reduce((count, file) => count + file.deletions, 0);
+  const notShown = ignored.length + omitted.length;
+
+  let summary = `${files.length} files changed, ${additions} insertions(+), ${deletions} deletions(-)`;
+  if (notShown > 0) {
+    summary += ` (diff not shown for ${notShown} files)`;
+  }
+
+  return { files, ignored, omitted, chunks, summary };
+}
@@ -0,0 +1,169 @@
+import { globToRegExp } from './helpers';
+import { ReleaseFlow, ReleaseFlowConfig, RepoConfig } from './types';
+
+/**
+ * Replaces the wildcards in a pattern, in order, with the given values.
+ */
+function fillWildcards(pattern: string, values: string[]): string {
+  let index = 0;
+  return pattern.replace(/\*\*|\*/g, () => values[index++] ?? '');
+}
+
+/**
+ * Returns the configured release flows, or a single flow built from
+ * `branches.staging` and `branches.release` when none are configured.
+ * @param config - The repository configuration
+ * @returns The release flows, in order
+ */
+export function getFlows(config: RepoConfig): ReleaseFlowConfig[] {
+  if (config.flows?.length) {
+    return config.flows;
+  }
+
+  return [
+    {
+      name: 'default',
+      source: config.branches?.staging ?? 'staging',
+      target: config.branches?.release ?? 'main',
+    },
+  ];
+}
+
+/**
+ * Resolves a flow's patterns against a concrete source branch. Wildcards in
+ * the target and version line are filled with the parts of the source branch
+ * matched by the source pattern's wildcards.
+ * @param flow - The configured flow
+ * @param sourceBranch - The concrete source branch
+ * @returns The resolved flow, or null if the branch does not match the flow
+ */
+export function resolveFlow(
+  flow: ReleaseFlowConfig,
+  sourceBranch: string
+): ReleaseFlow | null {
+  const match = sourceBranch.match(globToRegExp(flow.source));
+  if (!match) {
+    return null;
+  }
+
+  const captures = match.slice(1);
+  const versionLine = flow.release?.versionLine;
+
+  return {
+    name: flow.name ?? `${flow.source} → ${flow.target}`,
+    source: sourceBranch,
+    target: fillWildcards(flow.target, captures),
+    release: {
+      ...flow.release,
+      ...(versionLine
+        ? { versionLine: fillWildcards(versionLine, captures) }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Finds the flows a PR merged into a branch contributes features to. PRs from
+ * a flow's own target branch, such as back-merges, are not features.
+ * @param config - The repository configuration
+ * @param base - The branch the PR was merged into
+ * @param head - The PR's branch
+ * @returns The matching flows
+ */
+export function matchFeatureFlows(
+  config: RepoConfig,
+  base: string,
+  head: string
+): ReleaseFlow[] {
+  return getFlows(config)
+    .map((flow) => resolveFlow(flow, base))
+    .filter(
+      (flow): flow is ReleaseFlow => flow !== null && flow.target !== head
+    );
+}
+
+/**
+ * Finds the flows a PR promotes from source to target, i.e. release PRs.
+ * @param config - The repository configuration
+ * @param base - The PR's base branch
+ * @param head - The PR's branch
+ * @returns The matching flows
+ */
+export function matchReleaseFlows(
+  config: RepoConfig,
+  base: string,
+  head: string
+): ReleaseFlow[] {
+  return getFlows(config)
+    .map((flow) => resolveFlow(flow, head))
+    .filter(
+      (flow): flow is ReleaseFlow => flow !== null && flow.target === base
+    );
+}
+
+/**
+ * Finds the flows a PR merged straight into their target branch is a hotfix
+ * for. Release PRs, and PRs into a branch that is also a flow's source, are
+ * not hotfixes. Wildcards in the source and version line are filled with the
+ * parts of the target branch matched by the target pattern's wildcards.
+ * @param config - The repository configuration
+ * @param base - The branch the PR was merged into
+ * @param head - The PR's branch
+ * @returns The matching flows
+ */
+export function matchHotfixFlows(
+  config: RepoConfig,
+  base: string,
+  head: string
+): ReleaseFlow[] {
+  const flows = getFlows(config);
+  if (flows.some((flow) => resolveFlow(flow, base))) {
+    return [];
+  }
+
+  return flows.flatMap((flow) => {
+    const match = base.match(globToRegExp(flow.target));
+    if (!match) {
+      return [];
+    }
+
+    const captures = match.slice(1);
+    const source = fillWildcards(flow.source, captures);
+    if (source === head) {
+      return [];
+    }
+
+    const versionLine = flow.release?.versionLine;
+    return [
+      {
+        name: flow.name ?? `${flow.source} → ${flow.target}`,
+        source,
+        target: base,
+        release: {
+          ...flow.release,
+          ...(versionLine
+            ? { versionLine: fillWildcards(versionLine, captures) }
+            : {}),
+        },
+      },
+    ];
+  });
+}
+
+/**
+ * Scopes the configuration to a flow, so the branches and release settings
+ * used everywhere else are the flow's.
+ * @param config - The repository configuration
+ * @param flow - The resolved flow
+ * @returns The scoped configuration
+ */
+export function scopeConfigToFlow(
+  config: RepoConfig,
+  flow: ReleaseFlow
+): RepoConfig {
+  return {
+    ...config,
+    branches: { staging: flow.source, release: flow.target },
+    release: { ...config.release, ...flow.release },
+  };
+}
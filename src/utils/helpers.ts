@@ -1,76 +1,95 @@
-export function calculateNewVersion(
-  currentVersion: string,
-  releaseType: 'major' | 'minor' | 'patch'
-): string {
-  // Parse current version
-  const versionParts = currentVersion.split('.');
-  const major = parseInt(versionParts[0] || '0', 10);
-  const minor = parseInt(versionParts[1] || '0', 10);
-  const patch = parseInt(versionParts[2] || '0', 10);
-
-  // Calculate new version
-  switch (releaseType) {
-    case 'major':
-      return `${major + 1}.0.0`;
-    case 'minor':
-      return `${major}.${minor + 1}.0`;
-    case 'patch':
-    default:
-      return `${major}.${minor}.${patch + 1}`;
-  }
+import {
+  CategoryConfig,
+  RepoConfig,
+  SummaryCategory,
+  VersionType,
+} from './types';
+
+/**
+ * Escapes a string for use as a literal in a regular expression.
+ * @param value - The string to escape
+ * @returns The escaped string
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
 /**
- * Parses an AI-generated summary into sections
- * @param aiSummary - The AI-generated summary text
- * @returns Array of section objects with type and bullets
+ * Converts a glob pattern for branches or paths to a regular expression. `*`
+ * matches any characters except `/`, and `**` matches anything. Wildcards are
+ * captured in order.
+ * @param pattern - The glob pattern
+ * @returns The anchored regular expression
  */
-export function parseSummary(aiSummary: string): { type: string; bullets: string[] }[] {
-  // Define section constants to match those in PRService
-  const FEATURES_SECTION = 'New Features';
-  const BUGS_SECTION = 'Bugs / Improvements';
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\*\*|\*)/)
+    .map((part) =>
+      part === '**' ? '(.*)' : part === '*' ? '([^/]*)' : escapeRegExp(part)
+    )
+    .join('');
+  return new RegExp(`^${source}$`);
+}
 
+/**
+ * Returns the markdown heading text for a category, including its emoji.
+ * @param category - The configured category
+ * @returns The heading text, e.g. "✨ New Features"
+ */
+export function categoryHeading(category: CategoryConfig): string {
+  return category.emoji
+    ? `${category.emoji} ${category.title}`
+    : category.title;
+}
+
+/**
+ * Parses a summary into sections, one per configured category.
+ * Section headers are matched line by line, with or without markdown heading
+ * markers, numbering, bold markers, emoji or a trailing colon.
+ * @param aiSummary - The summary text
+ * @param categories - The configured categories, in order
+ * @returns Array of section objects with type and bullets
+ */
+export function parseSummary(
+  aiSummary: string,
+  categories: CategoryConfig[]
+): { type: string; bullets: string[] }[] {
   // Initialize result with the correct section types
-  const result: { type: string; bullets: string[] }[] = [
-    { type: FEATURES_SECTION, bullets: [] },
-    { type: BUGS_SECTION, bullets: [] }
-  ];
+  const result = categories.map((category) => ({
+    type: category.title,
+    bullets: [] as string[],
+  }));
 
   // If no summary, return empty sections
   if (!aiSummary || aiSummary.trim() === '') {
     return result;
   }
 
-  // Split by sections more accurately - look for section headers
-  const featuresSectionRegex = new RegExp(`${FEATURES_SECTION}[\\s\\S]*?(?=\\s*${BUGS_SECTION}|$)`, 'i');
-  const bugsSectionRegex = new RegExp(`${BUGS_SECTION}[\\s\\S]*$`, 'i');
-
-  const featuresMatch = aiSummary.match(featuresSectionRegex);
-  const bugsMatch = aiSummary.match(bugsSectionRegex);
-
-  // Process features section
-  if (featuresMatch && featuresMatch[0]) {
-    const featuresContent = featuresMatch[0].replace(FEATURES_SECTION, '').trim();
-    const bulletRegex = /^[-*]\s+(.+)$/gm;
-    let match: RegExpExecArray | null;
-    
-    while ((match = bulletRegex.exec(featuresContent)) !== null) {
-      if (match[1] && match[1].trim()) {
-        result[0].bullets.push(match[1].trim());
-      }
+  const normalize = (line: string) =>
+    line
+      .replace(/^[#\s]*(\d+\.\s*)?/, '')
+      .replace(/\*\*/g, '')
+      .replace(/:\s*$/, '')
+      .trim()
+      .toLowerCase();
+
+  const headings = categories.map((category) => [
+    category.title.toLowerCase(),
+    categoryHeading(category).toLowerCase(),
+  ]);
+
+  let current: { type: string; bullets: string[] } | undefined;
+  for (const line of aiSummary.split('\n')) {
+    const normalized = normalize(line);
+    const index = headings.findIndex((names) => names.includes(normalized));
+    if (index !== -1) {
+      current = result[index];
+      continue;
     }
-  }
 
-  // Process bugs section
-  if (bugsMatch && bugsMatch[0]) {
-    const bugsContent = bugsMatch[0].replace(BUGS_SECTION, '').trim();
-    const bulletRegex = /^[-*]\s+(.+)$/gm;
-    let match: RegExpExecArray | null;
-    
-    while ((match = bulletRegex.exec(bugsContent)) !== null) {
-      if (match[1] && match[1].trim()) {
-        result[1].bullets.push(match[1].trim());
-      }
+    const bullet = line.match(/^\s*[-*]\s+(.+)$/)?.[1]?.trim();
+    if (current && bullet) {
+      current.bullets.push(bullet);
     }
   }
 
@@ -128,3 +147,142 @@ export function updateSection(
     body.slice(0, sectionPos) + updatedSection + body.slice(nextSectionPos)
   );
 }
+
+/**
+ * Prepends a new changelog entry directly below the changelog header.
+ * If the existing changelog does not start with the header, the header is added.
+ * @param existing - The current changelog content (empty if the file is missing)
+ * @param header - The changelog header, e.g. "# Changelog\n\n"
+ * @param entry - The rendered entry for the new release
+ * @returns The updated changelog content
+ */
+export function prependChangelogEntry(
+  existing: string,
+  header: string,
+  entry: string
+): string {
+  const headerText = header.trim();
+
+  if (headerText && existing.trimStart().startsWith(headerText)) {
+    const rest = existing.trimStart().slice(headerText.length).trimStart();
+    return `${header}${entry}${rest}`;
+  }
+
+  return `${header}${entry}${existing.trimStart()}`;
+}
+
+/**
+ * Checks if a changelog already has an entry for a version, i.e. a markdown
+ * heading that mentions the version as a whole word.
+ * @param existing - The current changelog content
+ * @param version - The version as written in entries, e.g. "v1.2.0"
+ * @returns Whether the changelog has a heading for the version
+ */
+export function hasChangelogEntry(existing: string, version: string): boolean {
+  return new RegExp(
+    `^#+ .*(?<![\\w.])${escapeRegExp(version)}(?![\\w.+-])`,
+    'm'
+  ).test(existing);
+}
+
+const VERSION_TYPE_RANK: Record<VersionType, number> = {
+  PATCH: 1,
+  MINOR: 2,
+  MAJOR: 3,
+};
+
+/**
+ * Returns the largest version bump out of the given version types.
+ * @param versionTypes - The version types to compare
+ * @returns The highest version type, or null if none were given
+ */
+export function highestVersionType(
+  versionTypes: VersionType[]
+): VersionType | null {
+  return versionTypes.reduce<VersionType | null>(
+    (highest, versionType) =>
+      !highest || VERSION_TYPE_RANK[versionType] > VERSION_TYPE_RANK[highest]
+        ? versionType
+        : highest,
+    null
+  );
+}
+
+/**
+ * Detects release tags such as `[MAJOR]` in a PR's title, body or labels.
+ * Labels match either the exact tag or the tag without brackets (e.g. `major`).
+ * @param pr - The PR title, body and label names to search
+ * @param releaseTags - The configured release tags
+ * @returns The highest version type tagged on the PR, or null if untagged
+ */
+export function detectReleaseTag(
+  pr: { title: string; body: string; labels: string[] },
+  releaseTags: RepoConfig['releaseTags']
+): VersionType | null {
+  const found: VersionType[] = [];
+  const tags: [VersionType, string | undefined][] = [
+    ['MAJOR', releaseTags?.major],
+    ['MINOR', releaseTags?.minor],
+    ['PATCH', releaseTags?.patch],
+  ];
+  const labels = pr.labels.map((label) => label.toLowerCase());
+
+  for (const [versionType, tag] of tags) {
+    if (!tag) {
+      continue;
+    }
+
+    const bareTag = tag.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+    if (
+      pr.title.includes(tag) ||
+      pr.body.includes(tag) ||
+      labels.includes(tag.toLowerCase()) ||
+      labels.includes(bareTag)
+    ) {
+      found.push(versionType);
+    }
+  }
+
+  return highestVersionType(found);
+}
+
+/**
+ * Renders summary categories as markdown, one "## " heading per category.
+ * @param categories - The categories to render
+ * @param config - The configured categories, used for emoji in headings
+ * @returns The rendered markdown
+ */
+export function formatSections(
+  categories: SummaryCategory[],
+  config: CategoryConfig[] = []
+): string {
+  return categories
+    .map((category) => {
+      const configured = config.find((c) => c.title === category.name);
+      const heading = configured ? categoryHeading(configured) : category.name;
+      const bullets = category.bullets.map((bullet) => `- ${bullet}`);
+      return `## ${heading}\n${bullets.join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Parses a release PR title, e.g. "MINOR Release: v1.2.0: Add user authentication".
+ * @param title - The release PR title
+ * @returns The version type, the version as written and the summary, or null
+ * if the title does not follow the release format
+ */
+export function parseReleaseTitle(
+  title: string
+): { versionType: VersionType; version: string; summary: string } | null {
+  const match = title.match(/^(MAJOR|MINOR|PATCH) Release: (\S+?):/i);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    versionType: match[1].toUpperCase() as VersionType,
+    version: match[2],
+    summary: title.slice(match[0].length).trim(),
+  };
+}
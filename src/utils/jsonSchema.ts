@@ -0,0 +1,76 @@
+/**
+ * The subset of JSON Schema used for structured AI output.
+ */
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'boolean' | 'number';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: string[];
+  minLength?: number;
+}
+
+/**
+ * Validates a value against a JSON schema, supporting the keywords in {@link JSONSchema}.
+ * @param value - The value to validate
+ * @param schema - The schema to validate against
+ * @param path - The path of the value, used in error messages
+ * @returns A list of validation errors, empty if the value is valid
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JSONSchema,
+  path = '$'
+): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required ?? [])
+        .filter((key) => record[key] === undefined)
+        .map((key) => `${path}.${key} is required`);
+
+      for (const [key, propertySchema] of Object.entries(
+        schema.properties ?? {}
+      )) {
+        if (record[key] !== undefined) {
+          errors.push(
+            ...validateSchema(record[key], propertySchema, `${path}.${key}`)
+          );
+        }
+      }
+      return errors;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      return schema.items
+        ? value.flatMap((item, index) =>
+            validateSchema(item, schema.items!, `${path}[${index}]`)
+          )
+        : [];
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of: ${schema.enum.join(', ')}`];
+      }
+      if (schema.minLength && value.trim().length < schema.minLength) {
+        return [`${path} must not be empty`];
+      }
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    case 'number':
+      return typeof value === 'number' ? [] : [`${path} must be a number`];
+    default:
+      return [];
+  }
+}
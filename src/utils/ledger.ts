@@ -0,0 +1,301 @@
+import { formatSections, highestVersionType, parseSummary } from './helpers';
+import {
+  CategoryConfig,
+  FeatureSummary,
+  LedgerEntry,
+  ReleaseLedger,
+  SummaryCategory,
+  VersionType,
+} from './types';
+
+const LEDGER_REGEX = /<!-- release-ledger: (.*?) -->/;
+
+// Markers and attributed bullets written by versions before the ledger existed
+const LEGACY_RELEASE_TAG_REGEX =
+  /<!-- release-tag:#(\d+):(MAJOR|MINOR|PATCH) -->/g;
+const ATTRIBUTED_BULLET_REGEX =
+  /^(.*) \(via \[#(\d+)\]\(([^)]*)\) by @([^)\s]+)\)$/;
+
+/**
+ * Reads the ledger of included PRs stored in a release PR body. Bodies written
+ * before the ledger existed are migrated from their attributed bullets.
+ * @param body - The release PR body
+ * @param categories - The configured categories, used to read legacy bodies
+ * @returns The ledger, empty if the body has no entries
+ */
+export function readLedger(
+  body: string,
+  categories: CategoryConfig[]
+): ReleaseLedger {
+  const match = body.match(LEDGER_REGEX);
+  if (match) {
+    try {
+      const ledger = JSON.parse(match[1]);
+      if (Array.isArray(ledger?.entries)) {
+        return ledger;
+      }
+    } catch (error) {
+      // Fall through to the legacy format
+    }
+  }
+
+  return readLegacyLedger(body, categories);
+}
+
+/**
+ * Rebuilds a ledger from a release PR body written by string-splicing bullets
+ * with "(via [#N](url) by @author)" attributions into the category sections.
+ */
+function readLegacyLedger(
+  body: string,
+  categories: CategoryConfig[]
+): ReleaseLedger {
+  const tags = new Map<number, VersionType>();
+  for (const match of body.matchAll(LEGACY_RELEASE_TAG_REGEX)) {
+    tags.set(parseInt(match[1], 10), match[2] as VersionType);
+  }
+
+  const entries = new Map<number, LedgerEntry>();
+  for (const section of parseSummary(body, categories)) {
+    for (const line of section.bullets) {
+      const match = line.match(ATTRIBUTED_BULLET_REGEX);
+      if (!match) {
+        continue;
+      }
+
+      const [, bullet, number, url, author] = match;
+      const pr = parseInt(number, 10);
+      const entry = entries.get(pr) ?? {
+        pr,
+        title: `#${pr}`,
+        author,
+        url,
+        categories: [],
+        bumpType: tags.get(pr) ?? 'PATCH',
+        bumpReason: tags.has(pr) ? 'tag' : 'ai',
+      };
+      entries.set(pr, entry);
+
+      const category = entry.categories.find((c) => c.name === section.type);
+      if (category) {
+        category.bullets.push(bullet);
+      } else {
+        entry.categories.push({ name: section.type, bullets: [bullet] });
+      }
+    }
+  }
+
+  // Legacy bodies list the newest bullets first
+  return { entries: Array.from(entries.values()).reverse() };
+}
+
+/**
+ * Serializes a ledger into a hidden HTML comment for the release PR body.
+ * `>` is escaped so the JSON can never close the comment early.
+ * @param ledger - The ledger to serialize
+ * @returns The HTML comment
+ */
+export function serializeLedger(ledger: ReleaseLedger): string {
+  const json = JSON.stringify(ledger).replace(/>/g, '\\u003e');
+  return `<!-- release-ledger: ${json} -->`;
+}
+
+/**
+ * Stores a ledger in a release PR body, replacing the existing ledger comment
+ * or appending one if the body has none.
+ * @param body - The release PR body
+ * @param ledger - The ledger to store
+ * @returns The updated release PR body
+ */
+export function writeLedger(body: string, ledger: ReleaseLedger): string {
+  const comment = serializeLedger(ledger);
+  return LEDGER_REGEX.test(body)
+    ? body.replace(LEDGER_REGEX, () => comment)
+    : `${body}\n\n${comment}`;
+}
+
+/**
+ * Formats a reference to an entry's PR or commit, e.g. "#12" or "a1b2c3d".
+ * @param entry - The ledger entry
+ * @returns The reference
+ */
+export function entryReference(entry: LedgerEntry): string {
+  return entry.pr !== undefined
+    ? `#${entry.pr}`
+    : (entry.commit ?? '').slice(0, 7);
+}
+
+/**
+ * Formats an entry's author, as an @mention unless it has no GitHub login.
+ * @param entry - The ledger entry
+ * @returns The author, e.g. "@octocat" or "Jane Doe"
+ */
+export function formatAuthor(
+  entry: Pick<LedgerEntry, 'author' | 'gitAuthor'>
+): string {
+  return entry.gitAuthor ? entry.author : `@${entry.author}`;
+}
+
+/**
+ * Checks whether two entries are for the same PR, or the same pushed commit.
+ */
+function isSameEntry(a: LedgerEntry, b: LedgerEntry): boolean {
+  return a.pr !== undefined ? a.pr === b.pr : a.commit === b.commit;
+}
+
+/**
+ * Returns the key an entry is excluded by: its PR number, or its commit SHA.
+ */
+function entryKey(entry: LedgerEntry): number | string {
+  return entry.pr ?? entry.commit ?? '';
+}
+
+/**
+ * Checks whether an entry's PR or commit was removed from the release.
+ * @param ledger - The current ledger
+ * @param entry - The entry to check
+ * @returns True if the entry is excluded
+ */
+export function isExcluded(ledger: ReleaseLedger, entry: LedgerEntry): boolean {
+  return ledger.excluded?.includes(entryKey(entry)) ?? false;
+}
+
+/**
+ * Finds the entries for the same change as one of the given titles, e.g.
+ * commits cherry-picked from a hotfix PR, or a PR with the hotfix's title.
+ * Titles are compared ignoring case and whitespace.
+ * @param ledger - The current ledger
+ * @param titles - The titles of the change, such as its PR title and commit subjects
+ * @returns The matching entries
+ */
+export function findEntriesByTitle(
+  ledger: ReleaseLedger,
+  titles: string[]
+): LedgerEntry[] {
+  const normalize = (title: string) =>
+    title.trim().replace(/\s+/g, ' ').toLowerCase();
+  const wanted = new Set(titles.map(normalize));
+
+  return ledger.entries.filter((entry) => wanted.has(normalize(entry.title)));
+}
+
+/**
+ * Adds an entry to the ledger, replacing any existing entry for the same PR
+ * or commit in place so re-processing it does not duplicate its bullets.
+ * @param ledger - The current ledger
+ * @param entry - The entry to add
+ * @returns The updated ledger
+ */
+export function upsertLedgerEntry(
+  ledger: ReleaseLedger,
+  entry: LedgerEntry
+): ReleaseLedger {
+  const exists = ledger.entries.some((e) => isSameEntry(e, entry));
+  return {
+    ...ledger,
+    excluded: ledger.excluded?.filter((key) => key !== entryKey(entry)),
+    entries: exists
+      ? ledger.entries.map((e) => (isSameEntry(e, entry) ? entry : e))
+      : [...ledger.entries, entry],
+  };
+}
+
+/**
+ * Removes a PR's or pushed commit's entry from the ledger, recording it as
+ * excluded so a rebuild does not add it back.
+ * @param ledger - The current ledger
+ * @param key - The PR number or commit SHA to remove
+ * @returns The updated ledger
+ */
+export function removeLedgerEntry(
+  ledger: ReleaseLedger,
+  key: number | string
+): ReleaseLedger {
+  if (!ledger.entries.some((e) => entryKey(e) === key)) {
+    return ledger;
+  }
+
+  return {
+    ...ledger,
+    entries: ledger.entries.filter((e) => entryKey(e) !== key),
+    excluded: [...(ledger.excluded ?? []), key],
+  };
+}
+
+/**
+ * Renders the ledger as markdown category sections, attributing each bullet to
+ * its PR and author. Configured categories are rendered in order; categories
+ * that are no longer configured are rendered after them.
+ * @param ledger - The ledger to render
+ * @param categories - The configured categories, in order
+ * @param includeEmpty - Whether to render headings for empty categories
+ * @returns The rendered markdown
+ */
+export function renderLedger(
+  ledger: ReleaseLedger,
+  categories: CategoryConfig[],
+  includeEmpty = true
+): string {
+  const sections: SummaryCategory[] = categories.map((category) => ({
+    name: category.title,
+    bullets: [],
+  }));
+
+  for (const entry of ledger.entries) {
+    for (const category of entry.categories) {
+      let section = sections.find((s) => s.name === category.name);
+      if (!section) {
+        section = { name: category.name, bullets: [] };
+        sections.push(section);
+      }
+
+      section.bullets.push(
+        ...category.bullets.map(
+          (bullet) =>
+            `${bullet} (via [${entryReference(entry)}](${entry.url}) by ${formatAuthor(entry)})`
+        )
+      );
+    }
+  }
+
+  return formatSections(
+    includeEmpty
+      ? sections
+      : sections.filter((section) => section.bullets.length > 0),
+    categories
+  );
+}
+
+/**
+ * Combines the ledger's entries into a single summary of the release, e.g. to
+ * recompute the version bump after entries are removed.
+ * @param ledger - The ledger to summarize
+ * @param categories - The configured categories, in order
+ * @returns The summary, with the highest bump type of the entries
+ */
+export function summarizeLedger(
+  ledger: ReleaseLedger,
+  categories: CategoryConfig[]
+): FeatureSummary {
+  const sections: SummaryCategory[] = categories.map((category) => ({
+    name: category.title,
+    bullets: ledger.entries.flatMap(
+      (entry) =>
+        entry.categories.find((c) => c.name === category.title)?.bullets ?? []
+    ),
+  }));
+  const versionType =
+    ledger.bumpOverride ??
+    highestVersionType(ledger.entries.map((entry) => entry.bumpType)) ??
+    'PATCH';
+
+  return {
+    categories: sections,
+    versionType,
+    summary:
+      ledger.summaryOverride ??
+      ledger.entries[ledger.entries.length - 1]?.title ??
+      '',
+    breaking: versionType === 'MAJOR',
+  };
+}
@@ -0,0 +1,32 @@
+// The last task queued for each key, which resolves once it has finished
+const locks = new Map<string, Promise<void>>();
+
+/**
+ * Runs a task once every earlier task with the same key has finished, in the
+ * order the tasks were queued. Locks are held in memory, so they only
+ * serialize tasks within one process.
+ * @param key - The lock key
+ * @param task - The task to run while holding the lock
+ * @returns The task's result
+ */
+export async function withLock<T>(
+  key: string,
+  task: () => Promise<T>
+): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const current = previous.then(() => released);
+  locks.set(key, current);
+
+  await previous;
+  try {
+    return await task();
+  } finally {
+    release();
+    if (locks.get(key) === current) {
+      locks.delete(key);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { escapeRegExp, globToRegExp } from './helpers';
+import { renderLedger } from './ledger';
+import { isValidVersion } from './semver';
+import {
+  CategoryConfig,
+  PackageConfig,
+  ReleaseLedger,
+  VersionType,
+} from './types';
+
+// A package's planned release, computed from the PRs that touched it
+export interface PackageRelease {
+  pkg: PackageConfig;
+  // Versions without the tag format applied
+  currentVersion: string;
+  version: string;
+  bumpType: VersionType;
+  ledger: ReleaseLedger;
+}
+
+/**
+ * Finds the packages a set of changed files belongs to.
+ * @param files - The changed file paths
+ * @param packages - The configured packages
+ * @returns The names of the packages with at least one changed file
+ */
+export function matchPackages(
+  files: string[],
+  packages: PackageConfig[]
+): string[] {
+  return packages
+    .filter((pkg) => {
+      const patterns = pkg.paths.map(globToRegExp);
+      return files.some((file) =>
+        patterns.some((pattern) => pattern.test(file))
+      );
+    })
+    .map((pkg) => pkg.name);
+}
+
+/**
+ * Formats a package's tag, e.g. "@scope/pkg@1.2.0" or "pkg-v1.2.0".
+ * @param pkg - The package
+ * @param version - The version without prefix
+ * @returns The tag name
+ */
+export function formatPackageTag(pkg: PackageConfig, version: string): string {
+  return (pkg.tagFormat ?? `${pkg.name}@{version}`).replace(
+    '{version}',
+    version
+  );
+}
+
+/**
+ * Extracts the version from one of a package's tags.
+ * @param tag - The tag name
+ * @param pkg - The package
+ * @returns The version, or null if the tag is not a valid version of the package
+ */
+export function versionFromPackageTag(
+  tag: string,
+  pkg: PackageConfig
+): string | null {
+  const [before, after = ''] = (pkg.tagFormat ?? `${pkg.name}@{version}`).split(
+    '{version}'
+  );
+  const version = tag.match(
+    new RegExp(`^${escapeRegExp(before)}(.+)${escapeRegExp(after)}$`)
+  )?.[1];
+
+  return version && isValidVersion(version) ? version : null;
+}
+
+/**
+ * Narrows the ledger to the PRs that touched a package, or to the PRs that
+ * touched no package when no name is given.
+ * @param ledger - The release ledger
+ * @param name - The package name
+ * @returns The narrowed ledger
+ */
+export function packageLedger(
+  ledger: ReleaseLedger,
+  name?: string
+): ReleaseLedger {
+  return {
+    ...ledger,
+    entries: ledger.entries.filter((entry) =>
+      name ? entry.packages?.includes(name) : !entry.packages?.length
+    ),
+  };
+}
+
+/**
+ * Renders the release PR's features as one section per package, with the
+ * package's current and proposed version, followed by the changes that touched
+ * no package.
+ * @param releases - The planned package releases
+ * @param ledger - The release ledger
+ * @param categories - The configured categories, in order
+ * @returns The rendered markdown
+ */
+export function renderPackageSections(
+  releases: PackageRelease[],
+  ledger: ReleaseLedger,
+  categories: CategoryConfig[]
+): string {
+  // Categories become subsections of the package sections
+  const demote = (markdown: string) => markdown.replace(/^## /gm, '### ');
+
+  const sections = releases.map(
+    (release) =>
+      `## 📦 ${release.pkg.name}: ${formatPackageTag(release.pkg, release.currentVersion)} → ${formatPackageTag(release.pkg, release.version)} (${release.bumpType})\n\n${demote(renderLedger(release.ledger, categories, false))}`
+  );
+
+  const other = packageLedger(ledger);
+  if (other.entries.length > 0) {
+    sections.push(
+      `## Other changes\n\n${demote(renderLedger(other, categories, false))}`
+    );
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,145 @@
+import { entryReference, formatAuthor } from './ledger';
+import { BumpReason, ReleaseLedger } from './types';
+
+export interface ReadinessInput {
+  // The current and next versions, including the tag prefix
+  currentVersion: string;
+  nextVersion: string | null;
+  // Where the next version comes from, e.g. "PR title"
+  versionSource: string | null;
+  titleParsed: boolean;
+  tagExists: boolean;
+  ledger: ReleaseLedger;
+  aiEnabled: boolean;
+  blockers: { number: number; title: string; url: string }[];
+}
+
+export interface ReadinessReport {
+  conclusion: 'success' | 'neutral' | 'failure';
+  title: string;
+  summary: string;
+}
+
+const BUMP_REASON_LABELS: Record<BumpReason, string> = {
+  tag: 'release tag',
+  label: 'release tag label',
+  breaking: 'breaking change',
+  commits: 'commit types',
+  ai: 'AI',
+};
+
+/**
+ * Explains where the release's version bump comes from.
+ * @param ledger - The PRs included in the release
+ * @param aiEnabled - Whether the AI decides the bump for untagged PRs
+ * @returns A short explanation, e.g. "release tag on #12"
+ */
+export function describeBumpReason(
+  ledger: ReleaseLedger,
+  aiEnabled: boolean
+): string {
+  if (ledger.bumpOverride) {
+    return '`/autorelease bump` command';
+  }
+
+  const explicit = ledger.entries.filter((entry) => entry.bumpReason !== 'ai');
+  if (explicit.length > 0) {
+    return explicit
+      .map(
+        (entry) =>
+          `${BUMP_REASON_LABELS[entry.bumpReason]} on ${entryReference(entry)} (${entry.bumpType})`
+      )
+      .join(', ');
+  }
+
+  return aiEnabled ? 'AI' : 'commit types';
+}
+
+/**
+ * Builds the release readiness report for the staging-to-release PR. Problems
+ * that would make release creation fail fail the check; other problems are
+ * reported as warnings.
+ * @param input - The state of the release PR
+ * @returns The check conclusion, title and markdown summary
+ */
+export function buildReadinessReport(input: ReadinessInput): ReadinessReport {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input.nextVersion) {
+    errors.push(
+      'The next version cannot be determined from the PR title, the recorded version, release labels or the included PRs.'
+    );
+  } else if (!input.titleParsed) {
+    warnings.push(
+      `The PR title does not match "<MAJOR|MINOR|PATCH> Release: <version>: <summary>", so the version will come from the ${input.versionSource}.`
+    );
+  }
+
+  if (input.nextVersion && input.tagExists) {
+    errors.push(`The tag ${input.nextVersion} already exists.`);
+  }
+
+  for (const entry of input.ledger.entries) {
+    if (entry.categories.every((category) => category.bullets.length === 0)) {
+      warnings.push(
+        `${entryReference(entry)} "${entry.title}" has no summary.`
+      );
+    }
+  }
+
+  for (const blocker of input.blockers) {
+    warnings.push(
+      `[#${blocker.number}](${blocker.url}) "${blocker.title}" is an open release blocker.`
+    );
+  }
+
+  const conclusion =
+    errors.length > 0 ? 'failure' : warnings.length > 0 ? 'neutral' : 'success';
+
+  const title =
+    conclusion === 'failure'
+      ? 'Release would fail'
+      : `Ready to release ${input.nextVersion}${warnings.length > 0 ? ` with ${warnings.length} warning(s)` : ''}`;
+
+  const changes = input.ledger.entries.map(
+    (entry) =>
+      `- [${entryReference(entry)}](${entry.url}) ${entry.title} by ${formatAuthor(entry)}`
+  );
+
+  const summary = [
+    `**Current version:** ${input.currentVersion}`,
+    `**Next version:** ${input.nextVersion ?? 'unknown'}${input.versionSource ? ` (from the ${input.versionSource})` : ''}`,
+    `**Bump reason:** ${describeBumpReason(input.ledger, input.aiEnabled)}`,
+    ...(errors.length > 0
+      ? ['', '### Errors', ...errors.map((error) => `- ${error}`)]
+      : []),
+    ...(warnings.length > 0
+      ? ['', '### Warnings', ...warnings.map((warning) => `- ${warning}`)]
+      : []),
+    '',
+    `### Included PRs and commits (${changes.length})`,
+    ...(changes.length > 0 ? changes : ['_None yet_']),
+  ].join('\n');
+
+  return { conclusion, title, summary };
+}
+
+/**
+ * Builds the readiness report for a repository whose configuration is invalid,
+ * which always fails the check.
+ * @param errors - The configuration errors
+ * @returns The check title and markdown summary
+ */
+export function buildConfigErrorReport(
+  errors: string[]
+): Pick<ReadinessReport, 'title' | 'summary'> {
+  return {
+    title: 'Invalid configuration',
+    summary: [
+      'Fix the configuration before releasing:',
+      '',
+      ...errors.map((error) => `- ${error}`),
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,56 @@
+// GitHub's "Revert" button titles the PR `Revert "<original title>"` and
+// starts the body with "Reverts owner/repo#<number>"
+const REVERT_TITLE_REGEX = /^Revert "(.+)"$/;
+const REVERTS_PR_REGEX = /\bReverts [\w.-]+\/[\w.-]+#(\d+)/g;
+// `git revert` adds "This reverts commit <sha>." to the commit message
+const REVERTED_COMMIT_REGEX = /This reverts commit ([0-9a-f]{7,40})/g;
+
+export interface RevertInfo {
+  // True when the PR itself is a revert, rather than only containing reverts
+  isRevertPR: boolean;
+  // The title of the reverted PR, from a `Revert "..."` title
+  revertedTitle?: string;
+  // PRs referenced in the PR body
+  prNumbers: number[];
+  // Commits reverted by the PR's commits
+  commitShas: string[];
+}
+
+/**
+ * Detects whether a merged PR reverts earlier changes, either as a GitHub
+ * "Revert" PR or through `Revert "..."` commits.
+ * @param pr - The merged PR's title and body
+ * @param commitMessages - The PR's commit messages
+ * @returns What the PR reverts, or null if it does not revert anything
+ */
+export function detectRevert(
+  pr: { title: string; body: string },
+  commitMessages: string[]
+): RevertInfo | null {
+  const revertedTitle = pr.title.trim().match(REVERT_TITLE_REGEX)?.[1];
+
+  const prNumbers = revertedTitle
+    ? Array.from(pr.body.matchAll(REVERTS_PR_REGEX)).map((match) =>
+        parseInt(match[1], 10)
+      )
+    : [];
+
+  const commitShas = commitMessages
+    .filter((message) => message.startsWith('Revert "'))
+    .flatMap((message) =>
+      Array.from(message.matchAll(REVERTED_COMMIT_REGEX)).map(
+        (match) => match[1]
+      )
+    );
+
+  if (!revertedTitle && commitShas.length === 0) {
+    return null;
+  }
+
+  return {
+    isRevertPR: !!revertedTitle,
+    revertedTitle,
+    prNumbers: Array.from(new Set(prNumbers)),
+    commitShas: Array.from(new Set(commitShas)),
+  };
+}
@@ -0,0 +1,114 @@
+import { RepoConfig } from './types';
+
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+// e.g. "tuesday 10:00", "tue 10:00" or "10:00"
+const SCHEDULE_TIME_REGEX = /^(?:([a-z]+)\s+)?(\d{1,2}):(\d{2})$/i;
+
+/**
+ * Parses a release window such as "tuesday 10:00" (UTC). Windows without a day
+ * repeat every day.
+ * @param spec - The release window
+ * @returns The day of the week (0 is Sunday, null for every day), hour and
+ * minute, or null if the window is invalid
+ */
+export function parseScheduleTime(
+  spec: string
+): { day: number | null; hour: number; minute: number } | null {
+  const match = spec.trim().match(SCHEDULE_TIME_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  const [, dayName, hours, minutes] = match;
+  const hour = parseInt(hours, 10);
+  const minute = parseInt(minutes, 10);
+  if (hour > 23 || minute > 59) {
+    return null;
+  }
+
+  if (!dayName) {
+    return { day: null, hour, minute };
+  }
+
+  const day = WEEKDAYS.findIndex(
+    (weekday) =>
+      dayName.length >= 3 && weekday.startsWith(dayName.toLowerCase())
+  );
+  return day === -1 ? null : { day, hour, minute };
+}
+
+/**
+ * Finds the latest time a release window opened, at or before now.
+ * @param spec - The release window, e.g. "tuesday 10:00"
+ * @param now - The current time
+ * @returns The time the window last opened, or null if the window is invalid
+ */
+export function lastScheduledTime(spec: string, now: Date): Date | null {
+  const time = parseScheduleTime(spec);
+  if (!time) {
+    return null;
+  }
+
+  const scheduled = new Date(
+    Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate(),
+      time.hour,
+      time.minute
+    )
+  );
+
+  if (time.day !== null) {
+    scheduled.setUTCDate(
+      scheduled.getUTCDate() - ((now.getUTCDay() - time.day + 7) % 7)
+    );
+  }
+
+  if (scheduled > now) {
+    scheduled.setUTCDate(scheduled.getUTCDate() - (time.day === null ? 1 : 7));
+  }
+
+  return scheduled;
+}
+
+/**
+ * Decides whether a release is due: when enough PRs are pending, or when a
+ * release window opened since the last scheduler run. Nothing is due without
+ * pending PRs.
+ * @param schedule - The schedule configuration
+ * @param pendingPRs - The number of PRs in the release PR
+ * @param since - The time of the last scheduler run
+ * @param now - The current time
+ * @returns Why the release is due, or null if it is not
+ */
+export function isReleaseDue(
+  schedule: NonNullable<RepoConfig['schedule']>,
+  pendingPRs: number,
+  since: Date,
+  now: Date
+): string | null {
+  if (pendingPRs === 0) {
+    return null;
+  }
+
+  if (schedule.minPendingPRs && pendingPRs >= schedule.minPendingPRs) {
+    return `${pendingPRs} PRs are pending`;
+  }
+
+  const window = (schedule.at ?? []).find((spec) => {
+    const scheduled = lastScheduledTime(spec, now);
+    return scheduled !== null && scheduled > since;
+  });
+
+  return window ? `the release window "${window}" UTC opened` : null;
+}
@@ -0,0 +1,297 @@
+export type ReleaseType = 'major' | 'minor' | 'patch';
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+  build: string[];
+}
+
+// Official semver.org regular expression
+const SEMVER_REGEX =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Parses a semantic version string.
+ * @param version - The version to parse (e.g. "1.2.3-beta.1+build.5")
+ * @returns The parsed version, or null if the string is not valid semver
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(SEMVER_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  const [, major, minor, patch, prerelease, build] = match;
+
+  return {
+    major: parseInt(major, 10),
+    minor: parseInt(minor, 10),
+    patch: parseInt(patch, 10),
+    prerelease: prerelease
+      ? prerelease
+          .split('.')
+          .map((id) => (/^\d+$/.test(id) ? parseInt(id, 10) : id))
+      : [],
+    build: build ? build.split('.') : [],
+  };
+}
+
+/**
+ * Checks whether a string is a valid semantic version.
+ * @param version - The version to validate
+ * @returns True if the version is valid semver
+ */
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Formats a parsed version back into a version string.
+ * @param version - The parsed version
+ * @returns The version string (e.g. "1.2.3-beta.1+build.5")
+ */
+export function formatVersion(version: SemVer): string {
+  let result = `${version.major}.${version.minor}.${version.patch}`;
+  if (version.prerelease.length > 0) {
+    result += `-${version.prerelease.join('.')}`;
+  }
+  if (version.build.length > 0) {
+    result += `+${version.build.join('.')}`;
+  }
+  return result;
+}
+
+/**
+ * Removes a tag prefix (e.g. "v") from a tag name and validates the remainder.
+ * @param tag - The tag name (e.g. "v1.2.3")
+ * @param prefix - The configured tag prefix
+ * @returns The version without prefix, or null if the tag is not a valid version
+ */
+export function versionFromTag(tag: string, prefix: string): string | null {
+  if (!tag.startsWith(prefix)) {
+    return null;
+  }
+
+  const version = tag.slice(prefix.length);
+  return isValidVersion(version) ? version : null;
+}
+
+function toSemVer(version: string | SemVer): SemVer {
+  if (typeof version !== 'string') {
+    return version;
+  }
+
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    throw new Error(`Invalid semantic version: ${version}`);
+  }
+  return parsed;
+}
+
+function compareIdentifiers(a: string | number, b: string | number): number {
+  // Numeric identifiers always have lower precedence than alphanumeric ones
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (typeof a === 'number') {
+    return -1;
+  }
+  if (typeof b === 'number') {
+    return 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compares two versions by semver precedence. Build metadata is ignored.
+ * @param a - The first version
+ * @param b - The second version
+ * @returns A negative number if a < b, positive if a > b, and 0 if equal
+ * @throws If either version is not valid semver
+ */
+export function compareVersions(
+  a: string | SemVer,
+  b: string | SemVer
+): number {
+  const left = toSemVer(a);
+  const right = toSemVer(b);
+
+  const coreDiff =
+    left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch;
+  if (coreDiff !== 0) {
+    return Math.sign(coreDiff);
+  }
+
+  // A version without prerelease has higher precedence than one with
+  if (!left.prerelease.length && !right.prerelease.length) {
+    return 0;
+  }
+  if (!left.prerelease.length) {
+    return 1;
+  }
+  if (!right.prerelease.length) {
+    return -1;
+  }
+
+  const length = Math.max(left.prerelease.length, right.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    if (left.prerelease[i] === undefined) {
+      return -1;
+    }
+    if (right.prerelease[i] === undefined) {
+      return 1;
+    }
+    const diff = compareIdentifiers(left.prerelease[i], right.prerelease[i]);
+    if (diff !== 0) {
+      return Math.sign(diff);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Sorts versions by semver precedence, skipping invalid versions.
+ * @param versions - The versions to sort
+ * @param order - Ascending (default) or descending order
+ * @returns A new array of valid versions in sorted order
+ */
+export function sortVersions(
+  versions: string[],
+  order: 'asc' | 'desc' = 'asc'
+): string[] {
+  const sorted = versions
+    .filter(isValidVersion)
+    .sort((a, b) => compareVersions(a, b));
+  return order === 'desc' ? sorted.reverse() : sorted;
+}
+
+/**
+ * Calculates the next version for a release.
+ * A prerelease current version (e.g. "1.3.0-rc.1") is promoted to its release
+ * version when the bump does not go beyond it, matching semver increment rules.
+ * Build metadata is dropped.
+ * @param currentVersion - The current version without prefix (e.g. "1.2.3")
+ * @param releaseType - The version increment to apply
+ * @param prereleaseId - When set, produce a prerelease such as "1.3.0-rc.1"
+ * @returns The new version string
+ * @throws If the current version is not valid semver
+ */
+export function incrementVersion(
+  currentVersion: string,
+  releaseType: ReleaseType,
+  prereleaseId?: string
+): string {
+  const current = toSemVer(currentVersion);
+  const { major, minor, patch } = current;
+  const isPrerelease = current.prerelease.length > 0;
+
+  let next: SemVer;
+  switch (releaseType) {
+    case 'major':
+      next =
+        isPrerelease && minor === 0 && patch === 0
+          ? { ...current, prerelease: [], build: [] }
+          : { major: major + 1, minor: 0, patch: 0, prerelease: [], build: [] };
+      break;
+    case 'minor':
+      next =
+        isPrerelease && patch === 0
+          ? { ...current, prerelease: [], build: [] }
+          : { major, minor: minor + 1, patch: 0, prerelease: [], build: [] };
+      break;
+    case 'patch':
+    default:
+      next = isPrerelease
+        ? { ...current, prerelease: [], build: [] }
+        : { major, minor, patch: patch + 1, prerelease: [], build: [] };
+  }
+
+  if (!prereleaseId) {
+    return formatVersion(next);
+  }
+
+  // Continue the prerelease series when the target version is unchanged
+  const lastId = current.prerelease[current.prerelease.length - 1];
+  if (
+    isPrerelease &&
+    next.major === major &&
+    next.minor === minor &&
+    next.patch === patch &&
+    current.prerelease[0] === prereleaseId &&
+    typeof lastId === 'number'
+  ) {
+    next.prerelease = [...current.prerelease.slice(0, -1), lastId + 1];
+  } else {
+    next.prerelease = [prereleaseId, 1];
+  }
+
+  return formatVersion(next);
+}
+
+/**
+ * Determines the kind of release between two versions.
+ * @param from - The current version
+ * @param to - The new version
+ * @returns "major" or "minor" if that component changed, "patch" otherwise
+ */
+export function releaseTypeBetween(from: string, to: SemVer): ReleaseType {
+  const current = toSemVer(from);
+  if (to.major !== current.major) {
+    return 'major';
+  }
+  return to.minor !== current.minor ? 'minor' : 'patch';
+}
+
+/**
+ * Parses a version line such as "1.x" or "1.2.x" into its fixed components.
+ * @param line - The version line
+ * @returns The fixed major and minor versions, if any
+ */
+function parseVersionLine(line: string): { major?: number; minor?: number } {
+  const [major, minor] = line
+    .replace(/^v/, '')
+    .split('.')
+    .map((part) => (/^\d+$/.test(part) ? parseInt(part, 10) : undefined));
+  return { major, minor: major === undefined ? undefined : minor };
+}
+
+/**
+ * Checks whether a version belongs to a version line such as "1.x" or "1.2.x".
+ * @param version - The version to check
+ * @param line - The version line
+ * @returns True if the version's fixed components match the line
+ */
+export function inVersionLine(version: string | SemVer, line: string): boolean {
+  const { major, minor } = parseVersionLine(line);
+  const parsed = toSemVer(version);
+  return (
+    (major === undefined || parsed.major === major) &&
+    (minor === undefined || parsed.minor === minor)
+  );
+}
+
+/**
+ * Limits a release type to the largest bump that stays within a version line,
+ * e.g. a major release on the "1.x" line becomes a minor release.
+ * @param releaseType - The requested release type
+ * @param line - The version line
+ * @returns The release type to use
+ */
+export function capReleaseType(
+  releaseType: ReleaseType,
+  line: string
+): ReleaseType {
+  const { major, minor } = parseVersionLine(line);
+  if (minor !== undefined) {
+    return 'patch';
+  }
+  if (major !== undefined && releaseType === 'major') {
+    return 'minor';
+  }
+  return releaseType;
+}
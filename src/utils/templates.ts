@@ -0,0 +1,112 @@
+import { parseVersion } from './semver';
+import { VersionType } from './types';
+
+/**
+ * Variables available in the PR title/body, release name/body and changelog
+ * templates. Each is referenced as `{name}`, e.g. `{version}`.
+ */
+export interface TemplateVariables {
+  // The new version, including the tag prefix (e.g. "v1.3.0")
+  version: string;
+  // The new version's components
+  major: string;
+  minor: string;
+  patch: string;
+  // The version being released from, including the tag prefix (e.g. "v1.2.4")
+  previousVersion: string;
+  // MAJOR, MINOR or PATCH
+  bumpType: VersionType;
+  // The current date (YYYY-MM-DD) and timestamp (ISO 8601)
+  date: string;
+  timestamp: string;
+  // The release notes, rendered as markdown sections
+  features: string;
+  // A one-line summary of the release
+  summary: string;
+  // Comma-separated @mentions of everyone with changes in the release
+  contributors: string;
+  // The number of PRs included in the release
+  prCount: string;
+  // GitHub compare URL between the previous version and the release, empty if
+  // the previous version has no tag
+  compareUrl: string;
+}
+
+/**
+ * Replaces `{name}` placeholders in a template with the given values.
+ * Unknown placeholders are left untouched.
+ * @param template - The template string
+ * @param values - The values for the placeholders
+ * @returns The rendered string
+ */
+export function renderTemplate(
+  template: string,
+  values: Partial<TemplateVariables>
+): string {
+  const lookup = values as Record<string, string | undefined>;
+  return template.replace(/\{(\w+)\}/g, (token, name: string) =>
+    lookup[name] !== undefined ? (lookup[name] as string) : token
+  );
+}
+
+/**
+ * Builds the full set of template variables for a release.
+ * @param options - The release details
+ * @returns The template variables
+ */
+export function buildTemplateVariables(options: {
+  prefix: string;
+  version: string;
+  previousVersion: string;
+  bumpType: VersionType;
+  features: string;
+  summary: string;
+  contributors: string[];
+  prCount: number;
+  compareUrl: string;
+}): TemplateVariables {
+  const parsed = parseVersion(options.version);
+  const now = new Date();
+
+  return {
+    version: `${options.prefix}${options.version}`,
+    major: String(parsed?.major ?? ''),
+    minor: String(parsed?.minor ?? ''),
+    patch: String(parsed?.patch ?? ''),
+    previousVersion: `${options.prefix}${options.previousVersion}`,
+    bumpType: options.bumpType,
+    date: now.toISOString().split('T')[0],
+    timestamp: now.toISOString(),
+    features: options.features,
+    summary: options.summary,
+    contributors: options.contributors.map((login) => `@${login}`).join(', '),
+    prCount: String(options.prCount),
+    compareUrl: options.compareUrl,
+  };
+}
+
+/**
+ * Extracts the PRs and authors attributed in a release PR body, from bullets
+ * such as "- Add login (via [#12](...) by @octocat)".
+ * @param body - The release PR body
+ * @returns The unique PR numbers and author logins
+ */
+export function extractAttributions(body: string): {
+  prNumbers: number[];
+  contributors: string[];
+} {
+  const prNumbers = new Set<number>();
+  const contributors = new Set<string>();
+
+  for (const match of body.matchAll(
+    /\(via \[#(\d+)\]\([^)]*\) by @([^)\s]+)\)/g
+  )) {
+    prNumbers.add(parseInt(match[1], 10));
+    contributors.add(match[2]);
+  }
+
+  return {
+    prNumbers: Array.from(prNumbers),
+    contributors: Array.from(contributors),
+  };
+}
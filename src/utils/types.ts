@@ -1,17 +1,32 @@
+import { JSONSchema } from './jsonSchema';
+
 export interface RepoConfig {
   branches?: {
     release?: string;
     staging?: string;
   };
   pr?: {
+    // The bot parses "<bumpType> Release: <version>:" from the title on merge,
+    // so custom title templates should keep that prefix
     draftTitle?: string;
     draftBody?: string;
     featuresSection?: string;
   };
   release?: {
     prefix?: string;
+    // Open PRs with this label are reported by the release readiness check
+    blockerLabel?: string;
+    // Restricts versions to a line such as "1.x" or "1.2.x", for maintenance branches
+    versionLine?: string;
     createDraft?: boolean;
     prerelease?: boolean;
+    prereleaseIdentifier?: string;
+    versionSource?: 'tags' | 'file';
+    versionFile?: string;
+    tagPattern?: string;
+    backMergeToStaging?: boolean;
+    nameTemplate?: string;
+    bodyTemplate?: string;
     generateReleaseNotes?: boolean;
   };
   changelog?: {
@@ -19,6 +34,39 @@ export interface RepoConfig {
     headerFormat?: string;
     entryFormat?: string;
   };
+  // Promotion flows from a source to a target branch; defaults to a single flow
+  // from branches.staging to branches.release
+  flows?: ReleaseFlowConfig[];
+  // PRs merged straight into a flow's target branch, bypassing its source
+  hotfix?: {
+    enabled?: boolean;
+    // Back-merge the target into the source with a PR, or merge it directly
+    backMerge?: 'pr' | 'merge';
+  };
+  versionFiles?: VersionFileConfig[];
+  // Merges the release PR automatically, once it is mergeable and green
+  schedule?: {
+    // Release windows in UTC, e.g. "tuesday 10:00", or "10:00" for every day
+    at?: string[];
+    // Releases as soon as this many PRs are pending
+    minPendingPRs?: number;
+    mergeMethod?: 'merge' | 'squash' | 'rebase';
+  };
+  // Monorepo packages, each versioned and released separately
+  packages?: PackageConfig[];
+  // How PR and commit diffs are prepared for AI summaries
+  diff?: {
+    // Files whose diff is not sent to the model, e.g. lockfiles. Patterns
+    // without a "/" match the file name in any directory
+    ignore?: string[];
+    // Estimated tokens per file before its diff is cut
+    maxFileTokens?: number;
+    // Larger diffs are split into chunks of this many tokens and summarized
+    // chunk by chunk
+    maxChunkTokens?: number;
+    maxChunks?: number;
+  };
+  categories?: CategoryConfig[];
   releaseTags?: {
     major?: string;
     minor?: string;
@@ -26,6 +74,10 @@ export interface RepoConfig {
   };
   ai?: {
     enabled?: boolean;
+    provider?: LLMProviderName;
+    // Overrides openai.model, e.g. for Anthropic or self-hosted models
+    model?: string;
+    // Generation settings, used by every provider
     openai?: {
       model?: string;
       temperature?: number;
@@ -35,3 +87,211 @@ export interface RepoConfig {
     versionTypePrompt?: string;
   };
 }
+
+export type VersionType = 'MAJOR' | 'MINOR' | 'PATCH';
+
+export interface ReleaseFlowConfig {
+  name?: string;
+  // Branch feature PRs are merged into, as a glob (e.g. "staging", "release/*-staging")
+  source: string;
+  // Branch releases are made on; wildcards are filled from the source branch
+  target: string;
+  // Overrides the top-level release settings; wildcards in versionLine are
+  // filled from the source branch
+  release?: RepoConfig['release'];
+}
+
+// A flow resolved against concrete branches
+export interface ReleaseFlow {
+  name: string;
+  source: string;
+  target: string;
+  release: NonNullable<RepoConfig['release']>;
+}
+
+export interface CategoryConfig {
+  title: string;
+  // Tells the AI which changes belong in this category
+  description?: string;
+  emoji?: string;
+  // PRs with any of these labels have all their bullets placed in this category
+  labels?: string[];
+  // Conventional commit types for this category; "breaking" matches breaking changes
+  commitTypes?: string[];
+}
+
+export interface PackageConfig {
+  name: string;
+  // Globs of the files belonging to the package, e.g. "packages/api/**"
+  paths: string[];
+  // Tag name with a {version} placeholder, e.g. "pkg-v{version}"; defaults
+  // to "<name>@{version}"
+  tagFormat?: string;
+  // Changelog file for the package, e.g. "packages/api/CHANGELOG.md"
+  changelog?: string;
+  versionFiles?: VersionFileConfig[];
+}
+
+export type VersionFileFormat = 'json' | 'toml' | 'yaml' | 'text' | 'regex';
+
+export interface VersionFileConfig {
+  path: string;
+  // Inferred from the file extension when omitted
+  format?: VersionFileFormat;
+  // Dot-separated path to the version field for JSON files (defaults to "version")
+  jsonPath?: string;
+  // Regex whose first capture group is the version, for the "regex" format
+  pattern?: string;
+}
+
+export type LLMProviderName =
+  | 'openai'
+  | 'azure'
+  | 'anthropic'
+  | 'openai-compatible';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  model: string;
+  temperature: number;
+  max_tokens: number;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(
+    messages: ChatMessage[],
+    options: CompletionOptions
+  ): Promise<string>;
+  // Returns the parsed JSON the model produced for the output schema
+  completeStructured(
+    messages: ChatMessage[],
+    output: StructuredOutput,
+    options: CompletionOptions
+  ): Promise<unknown>;
+}
+
+export interface StructuredOutput {
+  name: string;
+  description: string;
+  schema: JSONSchema;
+}
+
+export interface SummaryCategory {
+  name: string;
+  bullets: string[];
+}
+
+export interface FeatureSummary {
+  categories: SummaryCategory[];
+  versionType: VersionType;
+  summary: string;
+  breaking: boolean;
+}
+
+export interface LedgerEntry {
+  // The merged PR, or the commit for changes pushed without a PR
+  pr?: number;
+  commit?: string;
+  title: string;
+  author: string;
+  // The author is a git author name without a GitHub login, so not @mentioned
+  gitAuthor?: boolean;
+  url: string;
+  categories: SummaryCategory[];
+  // The monorepo packages the PR touched
+  packages?: string[];
+  bumpType: VersionType;
+  // Any reason other than "ai" overrides the AI's choice for the release
+  bumpReason: BumpReason;
+}
+
+// A merged PR or a commit pushed without one, as summarized into the ledger
+export interface ChangeDetails {
+  pr?: number;
+  commit?: string;
+  title: string;
+  body: string;
+  author: string;
+  // The author is a git author name without a GitHub login, so not @mentioned
+  gitAuthor?: boolean;
+  url: string;
+  labels: string[];
+  files: string[];
+  diffSummary: string;
+  // The diff, split into chunks that each fit in one prompt
+  diffChunks: string[];
+  commitMessageList: string[];
+}
+
+// Where a feature PR's version bump comes from: a release tag in its title or
+// body, a release tag label, a breaking change, its commit types, or the AI
+export type BumpReason = 'tag' | 'label' | 'breaking' | 'commits' | 'ai';
+
+// The feature PRs included in a release PR, stored in its body
+export interface ReleaseLedger {
+  entries: LedgerEntry[];
+  // Set by the `/autorelease bump` and `/autorelease title` commands
+  bumpOverride?: VersionType;
+  summaryOverride?: string;
+  // PR numbers and pushed commit SHAs removed from the release, which a
+  // rebuild must not add back
+  excluded?: (number | string)[];
+  // The version last proposed in the title, without prefix, so a release can
+  // still be created when the title is edited
+  proposed?: {
+    version: string;
+    bumpType: VersionType;
+  };
+}
+
+// A merged staging-to-release PR to create a release from
+export interface ReleasePR {
+  number: number;
+  title: string;
+  body: string;
+  labels: string[];
+  mergeCommitSha: string | null;
+}
+
+export interface VersionInfo {
+  versionType: VersionType;
+  summary: string;
+}
+
+export type JobStoreName = 'file' | 'memory';
+
+// Pending jobs wait to be processed; failed jobs ran out of attempts and stay
+// in the dead-letter list until they are replayed or discarded
+export type JobStatus = 'pending' | 'failed';
+
+// A webhook event queued for processing
+export interface Job {
+  // The webhook delivery ID
+  id: string;
+  name: string;
+  payload: unknown;
+  // Jobs for the same repository run one at a time, in the order received
+  repository: string;
+  status: JobStatus;
+  attempts: number;
+  // Epoch milliseconds; the job is not run before this time
+  runAt: number;
+  createdAt: number;
+  lastError?: string;
+}
+
+export interface JobStore {
+  readonly name: JobStoreName;
+  // Ignores a job whose ID is already stored, e.g. a redelivered webhook
+  add(job: Job): Promise<void>;
+  get(id: string): Promise<Job | null>;
+  // Returns the jobs in the order they were added
+  list(status?: JobStatus): Promise<Job[]>;
+  update(job: Job): Promise<void>;
+  remove(id: string): Promise<void>;
+}
@@ -0,0 +1,137 @@
+import { isValidVersion } from './semver';
+import { VersionFileConfig, VersionFileFormat } from './types';
+
+const FORMAT_PATTERNS: Record<'toml' | 'yaml', RegExp> = {
+  toml: /^\s*version\s*=\s*["']([^"']+)["']/m,
+  yaml: /^version:\s*["']?([^"'\s#]+)["']?/m,
+};
+
+/**
+ * Extracts the version from the contents of a manifest or version file.
+ * The format is inferred from the file name:
+ * - `*.json` (e.g. package.json): the top-level `version` field
+ * - `*.toml` (e.g. Cargo.toml, pyproject.toml): the first `version = "..."` key
+ * - anything else (e.g. VERSION): the trimmed file content
+ * @param path - The path of the file in the repository
+ * @param content - The file content
+ * @returns The version, or null if none was found or it is not valid semver
+ */
+export function readVersionFromFile(
+  path: string,
+  content: string
+): string | null {
+  let version: string | undefined;
+
+  if (path.endsWith('.json')) {
+    try {
+      const json = JSON.parse(content);
+      version = typeof json.version === 'string' ? json.version : undefined;
+    } catch (error) {
+      return null;
+    }
+  } else if (path.endsWith('.toml')) {
+    version = content.match(FORMAT_PATTERNS.toml)?.[1];
+  } else {
+    version = content.trim().replace(/^v/, '');
+  }
+
+  return version && isValidVersion(version) ? version : null;
+}
+
+/**
+ * Infers the file format of a version file from its name.
+ * @param path - The path of the file in the repository
+ * @returns The inferred format
+ */
+function inferFormat(path: string): VersionFileFormat {
+  if (path.endsWith('.json')) {
+    return 'json';
+  }
+  if (path.endsWith('.toml')) {
+    return 'toml';
+  }
+  if (path.endsWith('.yaml') || path.endsWith('.yml')) {
+    return 'yaml';
+  }
+  return 'text';
+}
+
+/**
+ * Replaces the first capture group of the first match of a pattern.
+ * @returns The updated content, or null if the pattern does not match
+ */
+function replaceCaptureGroup(
+  content: string,
+  pattern: RegExp,
+  value: string
+): string | null {
+  const match = pattern.exec(content);
+  if (!match || match[1] === undefined) {
+    return null;
+  }
+
+  const groupStart = match.index + match[0].indexOf(match[1]);
+  return (
+    content.slice(0, groupStart) +
+    value +
+    content.slice(groupStart + match[1].length)
+  );
+}
+
+/**
+ * Writes a new version into the contents of a manifest or version file.
+ * @param entry - The configured version file (path, format, JSON path or pattern)
+ * @param content - The current file content
+ * @param version - The new version without prefix
+ * @returns The updated content, or null if no version field could be found
+ */
+export function writeVersionToFile(
+  entry: VersionFileConfig,
+  content: string,
+  version: string
+): string | null {
+  const format = entry.format ?? inferFormat(entry.path);
+
+  switch (format) {
+    case 'json': {
+      let json: unknown;
+      try {
+        json = JSON.parse(content);
+      } catch (error) {
+        return null;
+      }
+
+      // Walk the dot-separated JSON path, e.g. "version" or "$.packages.app.version"
+      const keys = (entry.jsonPath ?? 'version')
+        .replace(/^\$\./, '')
+        .split('.');
+      const lastKey = keys.pop() as string;
+      const parent = keys.reduce<unknown>(
+        (node, key) =>
+          node && typeof node === 'object'
+            ? (node as Record<string, unknown>)[key]
+            : undefined,
+        json
+      );
+      if (!parent || typeof parent !== 'object' || !(lastKey in parent)) {
+        return null;
+      }
+      (parent as Record<string, unknown>)[lastKey] = version;
+
+      // Preserve the file's indentation and trailing newline
+      const indent = content.match(/^[ \t]+(?=")/m)?.[0] ?? 2;
+      const trailingNewline = content.endsWith('\n') ? '\n' : '';
+      return JSON.stringify(json, null, indent) + trailingNewline;
+    }
+    case 'toml':
+    case 'yaml':
+      return replaceCaptureGroup(content, FORMAT_PATTERNS[format], version);
+    case 'regex':
+      return entry.pattern
+        ? replaceCaptureGroup(content, new RegExp(entry.pattern, 'm'), version)
+        : null;
+    case 'text':
+    default:
+      return `${version}\n`;
+  }
+}